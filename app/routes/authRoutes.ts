@@ -1,15 +1,30 @@
 import { Router } from "express";
 
 import {
+  createStreamTicket,
   currentUser,
+  listSessions,
   login,
   logout,
+  logoutAll,
+  reauthenticate,
+  revokeSession,
 } from "../../src/controllers/authController";
+import { requireCsrf } from "../../src/middleware/requireCsrf";
 
 const router = Router();
 
+// Login issues the CSRF token, so it is the one mutation that cannot need it.
 router.post("/login", login);
+
+router.use(requireCsrf);
+
 router.post("/logout", logout);
 router.get("/me", currentUser);
+router.post("/reauthenticate", reauthenticate);
+router.post("/logout-all", logoutAll);
+router.get("/sessions", listSessions);
+router.delete("/sessions/:id", revokeSession);
+router.post("/stream-ticket", createStreamTicket);
 
 export default router;
@@ -1,21 +1,125 @@
 import { Router } from "express";
 import {
+  getCommandJob,
   getDeviceStatus,
+  listCommandJobs,
+  listDeviceChanges,
   listDevices,
   listHomes,
+  listUpstreamScenes,
   setDeviceMode,
+  setDevicePower,
+  stepDeviceTemperature,
   streamDeviceEvents,
+  updateDevice,
 } from "../../src/controllers/bghController";
-import { requireAuth } from "../../src/middleware/requireAuth";
+import {
+  createAutomation,
+  deleteAutomation,
+  getAutomation,
+  listAutomations,
+  updateAutomation,
+} from "../../src/controllers/automationController";
+import {
+  applyScene,
+  createScene,
+  deleteScene,
+  getScene,
+  getSceneRun,
+  listScenes,
+  updateScene,
+} from "../../src/controllers/sceneController";
+import {
+  createSchedule,
+  deleteSchedule,
+  getSchedule,
+  listSchedules,
+  setHomeTimezone,
+  updateSchedule,
+} from "../../src/controllers/scheduleController";
+import {
+  requireAuth,
+  requireStreamTicket,
+} from "../../src/middleware/requireAuth";
+import {
+  commandRateLimit,
+  configRateLimit,
+  readRateLimit,
+} from "../../src/middleware/rateLimit";
+import { requireCsrf } from "../../src/middleware/requireCsrf";
 
 const router = Router();
 
+// Registered ahead of requireAuth: EventSource authenticates with a ticket.
+router.get("/events", requireStreamTicket, streamDeviceEvents);
+
 router.use(requireAuth);
+router.use(requireCsrf);
 
-router.get("/homes", listHomes);
-router.get("/homes/:homeId/devices", listDevices);
-router.get("/homes/:homeId/devices/:deviceId", getDeviceStatus);
-router.post("/devices/:deviceId/mode", setDeviceMode);
-router.get("/events", streamDeviceEvents);
+router.get("/homes", readRateLimit, listHomes);
+router.get("/homes/:homeId/devices", readRateLimit, listDevices);
+router.get("/homes/:homeId/devices/changes", readRateLimit, listDeviceChanges);
+router.get("/homes/:homeId/devices/:deviceId", readRateLimit, getDeviceStatus);
+router.patch(
+  "/homes/:homeId/devices/:deviceId",
+  commandRateLimit,
+  updateDevice,
+);
+router.post("/devices/:deviceId/mode", commandRateLimit, setDeviceMode);
+router.post("/devices/:deviceId/power", commandRateLimit, setDevicePower);
+router.post(
+  "/devices/:deviceId/temperature/step",
+  commandRateLimit,
+  stepDeviceTemperature,
+);
+router.get("/homes/:homeId/schedules", readRateLimit, listSchedules);
+router.post("/homes/:homeId/schedules", configRateLimit, createSchedule);
+router.put(
+  "/homes/:homeId/schedules/timezone",
+  configRateLimit,
+  setHomeTimezone,
+);
+router.get("/homes/:homeId/schedules/:scheduleId", readRateLimit, getSchedule);
+router.patch(
+  "/homes/:homeId/schedules/:scheduleId",
+  configRateLimit,
+  updateSchedule,
+);
+router.delete(
+  "/homes/:homeId/schedules/:scheduleId",
+  configRateLimit,
+  deleteSchedule,
+);
+router.get("/homes/:homeId/scenes", readRateLimit, listScenes);
+router.post("/homes/:homeId/scenes", configRateLimit, createScene);
+router.get("/homes/:homeId/scenes/bgh", readRateLimit, listUpstreamScenes);
+router.get("/homes/:homeId/scenes/:sceneId", readRateLimit, getScene);
+router.patch("/homes/:homeId/scenes/:sceneId", configRateLimit, updateScene);
+router.delete("/homes/:homeId/scenes/:sceneId", configRateLimit, deleteScene);
+router.post(
+  "/homes/:homeId/scenes/:sceneId/apply",
+  commandRateLimit,
+  applyScene,
+);
+router.get("/scene-runs/:runId", readRateLimit, getSceneRun);
+router.get("/homes/:homeId/automations", readRateLimit, listAutomations);
+router.post("/homes/:homeId/automations", configRateLimit, createAutomation);
+router.get(
+  "/homes/:homeId/automations/:automationId",
+  readRateLimit,
+  getAutomation,
+);
+router.patch(
+  "/homes/:homeId/automations/:automationId",
+  configRateLimit,
+  updateAutomation,
+);
+router.delete(
+  "/homes/:homeId/automations/:automationId",
+  configRateLimit,
+  deleteAutomation,
+);
+router.get("/commands", readRateLimit, listCommandJobs);
+router.get("/commands/:jobId", readRateLimit, getCommandJob);
 
 export default router;
@@ -1,10 +1,13 @@
 ﻿import axios, { AxiosInstance, AxiosResponse } from "axios";
+import { randomUUID } from "crypto";
 
 export const BASE_URL = "https://bgh-services.solidmation.com";
 export const API_URL = `${BASE_URL}/1.0`;
 export const LOGIN_ENDPOINT = `${BASE_URL}/control/LoginPage.aspx/DoStandardLogin`;
 export const DEFAULT_TIMEOUT_MS = 15_000;
 
+const AUTH_FAILURE_STATUSES = new Set([401, 403]);
+
 export const FAN_MODES: Record<string, number> = {
   low: 1,
   mid: 2,
@@ -36,6 +39,7 @@ type RawEndpointValue = {
 } & JsonObject;
 
 type RawEndpointValueGroup = {
+  EndpointID?: number;
   Values?: unknown;
 } & JsonObject;
 
@@ -45,10 +49,18 @@ type RawEndpoint = {
 } & JsonObject;
 
 type RawDevice = {
+  EndpointID?: number;
   DeviceModel?: string | null;
   Address?: string | null;
 } & JsonObject;
 
+type RawScene = {
+  SceneID?: number;
+  ID?: number;
+  Description?: string | null;
+  Name?: string | null;
+} & JsonObject;
+
 export class BGHApiError extends Error {
   public readonly response?: AxiosResponse;
 
@@ -66,6 +78,104 @@ export class BGHAuthenticationError extends BGHApiError {
   }
 }
 
+/** Setpoint limits; each is null when the unit does not report it. */
+export interface TemperatureRange {
+  min: number | null;
+  max: number | null;
+  step: number | null;
+}
+
+/**
+ * What a single unit accepts, as advertised by its endpoint metadata. Lists
+ * are null when the unit does not report them, meaning anything is allowed.
+ */
+export interface DeviceCapabilities {
+  modes: string[] | null;
+  fanSpeeds: string[] | null;
+  temperature: TemperatureRange;
+}
+
+// Sentinels are command options, not something a unit advertises.
+const SENTINEL_NAMES = new Set(["no_change"]);
+
+const readNumber = (
+  source: JsonObject | undefined,
+  key: string,
+): number | null => {
+  const candidate = source?.[key];
+  if (
+    (typeof candidate === "number" || typeof candidate === "string") &&
+    String(candidate).trim().length > 0 &&
+    Number.isFinite(Number(candidate))
+  ) {
+    return Number(candidate);
+  }
+  return null;
+};
+
+const readNumberList = (
+  source: JsonObject | undefined,
+  key: string,
+): number[] | null => {
+  const candidate = source?.[key];
+  if (!Array.isArray(candidate)) {
+    return null;
+  }
+  return candidate
+    .map((entry) =>
+      typeof entry === "object" && entry !== null
+        ? (entry as JsonObject).Value
+        : entry,
+    )
+    .map(Number)
+    .filter((entry) => Number.isFinite(entry));
+};
+
+const namesFor = (
+  table: Record<string, number>,
+  allowedIds: number[] | null,
+): string[] | null =>
+  allowedIds === null
+    ? null
+    : Object.entries(table)
+        .filter(
+          ([name, id]) => !SENTINEL_NAMES.has(name) && allowedIds.includes(id),
+        )
+        .map(([name]) => name);
+
+/**
+ * Derives what a unit supports from the metadata on its endpoint values.
+ * Anything the unit does not report is left null so callers skip checking
+ * it instead of enforcing a guess.
+ */
+export const deriveCapabilities = (
+  values: RawEndpointValue[],
+): DeviceCapabilities => {
+  const findItem = (valueType: number): RawEndpointValue | undefined =>
+    values.find((item) => item.ValueType === valueType);
+
+  const modes = namesFor(
+    HVAC_MODES,
+    readNumberList(findItem(VALUE_TYPE_MODE), "AllowedValues"),
+  );
+  const setpoint = findItem(VALUE_TYPE_TARGET_TEMPERATURE);
+  const step = readNumber(setpoint, "Step");
+
+  return {
+    // Every unit can be switched off, even if it does not list it.
+    modes: modes === null || modes.includes("off") ? modes : ["off", ...modes],
+    fanSpeeds: namesFor(
+      FAN_MODES,
+      readNumberList(findItem(VALUE_TYPE_FAN_SPEED), "AllowedValues"),
+    ),
+    temperature: {
+      min: readNumber(setpoint, "MinValue"),
+      max: readNumber(setpoint, "MaxValue"),
+      step: step !== null && step > 0 ? step : null,
+    },
+  };
+};
+
 export class DeviceStatus {
   constructor(
     public readonly deviceId: number,
@@ -81,6 +191,10 @@ export class DeviceStatus {
     public readonly endpoint: RawEndpoint,
   ) {}
 
+  get capabilities(): DeviceCapabilities {
+    return deriveCapabilities(this.rawValues);
+  }
+
   toJSON(): JsonObject {
     return {
       deviceId: this.deviceId,
@@ -91,6 +205,7 @@ export class DeviceStatus {
       targetTemperature: this.targetTemperature,
       fanSpeed: this.fanSpeed,
       modeId: this.modeId,
+      capabilities: this.capabilities,
     };
   }
 }
@@ -102,20 +217,91 @@ type TokenPayload = {
 export interface BGHClientOptions {
   httpClient?: AxiosInstance;
   timeoutMs?: number;
+  /** Awaited before every upstream request, e.g. to share a rate budget. */
+  throttle?: () => Promise<void>;
 }
 
 export type HomeSummary = JsonObject;
 export type DeviceStatusMap = Record<number, DeviceStatus>;
 
+const DATA_PACKET_SERIAL_KEYS = [
+  "Home",
+  "Groups",
+  "Devices",
+  "Endpoints",
+  "EndpointValues",
+  "Scenes",
+  "Macros",
+  "Alarms",
+] as const;
+
+export type DataPacketSerials = Record<
+  (typeof DATA_PACKET_SERIAL_KEYS)[number],
+  number
+>;
+
+export interface DeviceSyncResult {
+  cursor: string;
+  devices: DeviceStatusMap;
+  changed: number[];
+  removed: number[];
+}
+
+/** A scene configured in the BGH app, as sent in the data packet. */
+export interface UpstreamScene {
+  sceneId: number;
+  name: string;
+  raw: JsonObject;
+}
+
+export interface DeviceChangeSet {
+  cursor: string;
+  /** True when the cursor was unknown and every device is included. */
+  full: boolean;
+  devices: DeviceStatusMap;
+  removed: number[];
+}
+
+/**
+ * Per-home view of the last data packets, merged so that delta packets only
+ * need to carry what changed since the serials we sent.
+ */
+type HomeSyncState = {
+  syncId: string;
+  serials: DataPacketSerials;
+  endpoints: Map<number, RawEndpoint>;
+  values: Map<number, RawEndpointValue[]>;
+  devices: Map<number, RawDevice>;
+  scenes: Map<number, RawScene>;
+  statuses: DeviceStatusMap;
+  revision: number;
+  changedAt: Map<number, number>;
+  removedAt: Map<number, number>;
+};
+
+const createEmptySerials = (): DataPacketSerials =>
+  DATA_PACKET_SERIAL_KEYS.reduce((acc, key) => {
+    acc[key] = 0;
+    return acc;
+  }, {} as DataPacketSerials);
+
 export class BGHClient {
   private readonly http: AxiosInstance;
   private readonly timeoutMs: number;
+  private readonly throttle?: () => Promise<void>;
+  private readonly email: string;
+  private readonly password: string;
   private token?: TokenPayload;
-  private readonly tokenPromise: Promise<TokenPayload>;
+  private tokenPromise?: Promise<TokenPayload>;
+  private refreshPromise?: Promise<TokenPayload>;
+  private readonly homeStates = new Map<number, HomeSyncState>();
 
   constructor(email: string, password: string, options: BGHClientOptions = {}) {
     this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
     this.http = options.httpClient ?? axios.create({ timeout: this.timeoutMs });
+    this.throttle = options.throttle;
+    this.email = email;
+    this.password = password;
     this.tokenPromise = this.login(email, password);
   }
 
@@ -128,8 +314,96 @@ export class BGHClient {
   }
 
   async getDevices(homeId: number): Promise<DeviceStatusMap> {
-    const dataPacket = await this.getDataPacket(homeId);
-    return this.parseDevices(dataPacket);
+    const { devices } = await this.syncDevices(homeId);
+    return devices;
+  }
+
+  /**
+   * Requests only what changed since the last packet for the home and merges
+   * it into the cached device map. The first call downloads everything.
+   */
+  async syncDevices(homeId: number): Promise<DeviceSyncResult> {
+    const state = this.homeStates.get(homeId) ?? this.createSyncState();
+    const sentSerials = { ...state.serials };
+    const isFullSync = DATA_PACKET_SERIAL_KEYS.every(
+      (key) => sentSerials[key] === 0,
+    );
+
+    const dataPacket = await this.getDataPacket(homeId, sentSerials);
+    const { changed, removed } = this.mergeDataPacket(
+      state,
+      dataPacket,
+      isFullSync,
+    );
+    this.homeStates.set(homeId, state);
+
+    return {
+      cursor: this.formatCursor(state),
+      devices: { ...state.statuses },
+      changed,
+      removed,
+    };
+  }
+
+  /**
+   * Returns the devices that changed after the given cursor. Unknown or stale
+   * cursors (for example from a previous client instance) yield every device.
+   */
+  async getChangesSince(
+    homeId: number,
+    cursor?: string | null,
+  ): Promise<DeviceChangeSet> {
+    const { cursor: nextCursor, devices } = await this.syncDevices(homeId);
+    const state = this.homeStates.get(homeId);
+    const since = state ? this.parseCursor(state, cursor) : null;
+
+    if (!state || since === null) {
+      return { cursor: nextCursor, full: true, devices, removed: [] };
+    }
+
+    const changedDevices: DeviceStatusMap = {};
+    for (const [deviceId, revision] of state.changedAt.entries()) {
+      const device = devices[deviceId];
+      if (revision > since && device) {
+        changedDevices[deviceId] = device;
+      }
+    }
+
+    const removed: number[] = [];
+    for (const [deviceId, revision] of state.removedAt.entries()) {
+      if (revision > since) {
+        removed.push(deviceId);
+      }
+    }
+
+    return {
+      cursor: nextCursor,
+      full: false,
+      devices: changedDevices,
+      removed,
+    };
+  }
+
+  /** Lists the scenes defined for the home in the BGH app. */
+  async getScenes(homeId: number): Promise<UpstreamScene[]> {
+    await this.syncDevices(homeId);
+    const scenes = this.homeStates.get(homeId)?.scenes ?? new Map();
+    return Array.from(scenes.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([sceneId, raw]) => ({
+        sceneId,
+        name: raw.Description ?? raw.Name ?? "",
+        raw,
+      }));
+  }
+
+  /** Forgets the serials for a home so the next sync downloads everything. */
+  resetSync(homeId?: number): void {
+    if (homeId === undefined) {
+      this.homeStates.clear();
+      return;
+    }
+    this.homeStates.delete(homeId);
   }
 
   async getDeviceStatus(
@@ -179,15 +453,53 @@ export class BGHClient {
     return data;
   }
 
+  /**
+   * Resolves the session token, starting a new login when the previous one
+   * failed so a network error on the first attempt does not stick.
+   */
   private async ensureToken(): Promise<TokenPayload> {
-    if (!this.token) {
-      this.token = await this.tokenPromise;
+    if (this.token) {
+      return this.token;
+    }
+    if (!this.tokenPromise) {
+      this.tokenPromise = this.login(this.email, this.password);
+    }
+    const pending = this.tokenPromise;
+    try {
+      this.token = await pending;
+      return this.token;
+    } catch (error) {
+      if (this.tokenPromise === pending) {
+        this.tokenPromise = undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Logs in again with the stored credentials. Concurrent callers holding the
+   * same stale token share a single login round-trip.
+   */
+  private async refreshToken(staleToken: TokenPayload): Promise<TokenPayload> {
+    if (this.token && this.token !== staleToken) {
+      return this.token;
     }
-    return this.token;
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.login(this.email, this.password)
+        .then((token) => {
+          this.token = token;
+          return token;
+        })
+        .finally(() => {
+          this.refreshPromise = undefined;
+        });
+    }
+    return this.refreshPromise;
   }
 
   private async login(email: string, password: string): Promise<TokenPayload> {
     try {
+      await this.throttle?.();
       const response = await this.http.post(LOGIN_ENDPOINT, {
         user: email,
         password,
@@ -221,13 +533,15 @@ export class BGHClient {
         response,
       );
     } catch (error) {
-      if (axios.isAxiosError(error) && error.response) {
+      // Only a rejection of the credentials is an authentication failure;
+      // outages and timeouts must not send the user to log in again.
+      if (axios.isAxiosError(error) && this.isAuthFailure(error)) {
         throw new BGHAuthenticationError(
-          `Authentication failed with status ${error.response.status}`,
+          `Authentication failed with status ${error.response?.status}`,
           error.response,
         );
       }
-      throw error;
+      throw this.toApiError(LOGIN_ENDPOINT, error);
     }
   }
 
@@ -236,6 +550,35 @@ export class BGHClient {
     payload: JsonObject = {},
   ): Promise<AxiosResponse> {
     const token = await this.ensureToken();
+
+    try {
+      return await this.send(endpoint, payload, token);
+    } catch (error) {
+      if (!this.isAuthFailure(error)) {
+        throw this.toApiError(endpoint, error);
+      }
+    }
+
+    // The upstream token expired: log in once more and replay the request.
+    const refreshedToken = await this.refreshToken(token);
+    try {
+      return await this.send(endpoint, payload, refreshedToken);
+    } catch (error) {
+      if (axios.isAxiosError(error) && this.isAuthFailure(error)) {
+        throw new BGHAuthenticationError(
+          `Request to ${endpoint} was rejected after re-authenticating`,
+          error.response,
+        );
+      }
+      throw this.toApiError(endpoint, error);
+    }
+  }
+
+  private async send(
+    endpoint: string,
+    payload: JsonObject,
+    token: TokenPayload,
+  ): Promise<AxiosResponse> {
     const body: JsonObject = { ...payload };
 
     const existingToken = body.token as JsonObject | undefined;
@@ -244,23 +587,30 @@ export class BGHClient {
       Token: token.Token,
     };
 
-    try {
-      return await this.http.post(endpoint, body);
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
-        const { response } = error;
-        if (response) {
-          throw new BGHApiError(
-            `Request to ${endpoint} failed with status ${response.status}`,
-            response,
-          );
-        }
-        throw new BGHApiError(
-          `Request to ${endpoint} failed: ${error.message}`,
+    await this.throttle?.();
+    return this.http.post(endpoint, body);
+  }
+
+  private isAuthFailure(error: unknown): boolean {
+    return (
+      axios.isAxiosError(error) &&
+      error.response !== undefined &&
+      AUTH_FAILURE_STATUSES.has(error.response.status)
+    );
+  }
+
+  private toApiError(endpoint: string, error: unknown): unknown {
+    if (axios.isAxiosError(error)) {
+      const { response } = error;
+      if (response) {
+        return new BGHApiError(
+          `Request to ${endpoint} failed with status ${response.status}`,
+          response,
         );
       }
-      throw error;
+      return new BGHApiError(`Request to ${endpoint} failed: ${error.message}`);
     }
+    return error;
   }
 
   private extractJson(response: AxiosResponse, context: string): JsonObject {
@@ -274,20 +624,14 @@ export class BGHClient {
     return data as JsonObject;
   }
 
-  private async getDataPacket(homeId: number): Promise<JsonObject> {
+  private async getDataPacket(
+    homeId: number,
+    serials: DataPacketSerials,
+  ): Promise<JsonObject> {
     const endpoint = `${API_URL}/HomeCloudService.svc/GetDataPacket`;
     const payload: JsonObject = {
       homeID: homeId,
-      serials: {
-        Home: 0,
-        Groups: 0,
-        Devices: 0,
-        Endpoints: 0,
-        EndpointValues: 0,
-        Scenes: 0,
-        Macros: 0,
-        Alarms: 0,
-      },
+      serials,
       timeOut: 10_000,
     };
 
@@ -296,47 +640,184 @@ export class BGHClient {
     return (data.GetDataPacketResult as JsonObject | undefined) ?? {};
   }
 
-  private parseDevices(data: JsonObject): DeviceStatusMap {
+  private createSyncState(): HomeSyncState {
+    return {
+      syncId: randomUUID(),
+      serials: createEmptySerials(),
+      endpoints: new Map(),
+      values: new Map(),
+      devices: new Map(),
+      scenes: new Map(),
+      statuses: {},
+      revision: 0,
+      changedAt: new Map(),
+      removedAt: new Map(),
+    };
+  }
+
+  private mergeDataPacket(
+    state: HomeSyncState,
+    data: JsonObject,
+    isFullSync: boolean,
+  ): { changed: number[]; removed: number[] } {
     const endpoints = (data.Endpoints as RawEndpoint[] | undefined) ?? [];
     const endpointValues =
       (data.EndpointValues as RawEndpointValueGroup[] | undefined) ?? [];
     const devicesMeta = (data.Devices as RawDevice[] | undefined) ?? [];
+    const scenes = (data.Scenes as RawScene[] | undefined) ?? [];
+
+    // A full packet lists the three arrays in the same order, so an entry
+    // without its own EndpointID belongs to the endpoint at its position.
+    // Deltas only carry the entries that changed and positions do not line
+    // up, so there entries without an EndpointID are ignored.
+    const resolveEndpointId = (
+      entry: { EndpointID?: number } | undefined,
+      index: number,
+    ): number | undefined => {
+      if (typeof entry?.EndpointID === "number") {
+        return entry.EndpointID;
+      }
+      const positional = isFullSync ? endpoints[index]?.EndpointID : undefined;
+      return typeof positional === "number" ? positional : undefined;
+    };
 
-    const devices: DeviceStatusMap = {};
+    if (isFullSync) {
+      state.endpoints.clear();
+      state.values.clear();
+      state.devices.clear();
+      state.scenes.clear();
+    }
 
-    for (let index = 0; index < endpoints.length; index += 1) {
-      const endpoint = endpoints[index];
-      const valuesGroup = endpointValues[index];
-      const metadata = devicesMeta[index];
+    for (const scene of scenes) {
+      const sceneId = scene?.SceneID ?? scene?.ID;
+      if (typeof sceneId === "number") {
+        state.scenes.set(sceneId, scene);
+      }
+    }
 
-      if (!endpoint) {
-        continue;
+    const touched = new Set<number>();
+
+    endpoints.forEach((endpoint, index) => {
+      const endpointId = resolveEndpointId(endpoint, index);
+      if (endpoint && endpointId !== undefined) {
+        state.endpoints.set(endpointId, endpoint);
+        touched.add(endpointId);
       }
+    });
 
-      const endpointId = endpoint.EndpointID;
-      if (typeof endpointId !== "number") {
-        continue;
+    endpointValues.forEach((valuesGroup, index) => {
+      const endpointId = resolveEndpointId(valuesGroup, index);
+      if (endpointId !== undefined) {
+        state.values.set(endpointId, this.normaliseValues(valuesGroup));
+        touched.add(endpointId);
       }
+    });
 
-      const values = this.normaliseValues(valuesGroup);
-      const parsed = this.parseRawValues(values);
+    devicesMeta.forEach((metadata, index) => {
+      const endpointId = resolveEndpointId(metadata, index);
+      if (metadata && endpointId !== undefined) {
+        state.devices.set(endpointId, metadata);
+        touched.add(endpointId);
+      }
+    });
+
+    const nextRevision = state.revision + 1;
+    const changed: number[] = [];
+    const removed: number[] = [];
+
+    if (isFullSync) {
+      for (const key of Object.keys(state.statuses)) {
+        const deviceId = Number(key);
+        if (!state.endpoints.has(deviceId)) {
+          delete state.statuses[deviceId];
+          state.changedAt.delete(deviceId);
+          state.removedAt.set(deviceId, nextRevision);
+          removed.push(deviceId);
+        }
+      }
+    }
 
-      devices[endpointId] = new DeviceStatus(
+    for (const endpointId of touched) {
+      const endpoint = state.endpoints.get(endpointId);
+      if (!endpoint) {
+        continue;
+      }
+      const status = this.buildDeviceStatus(
         endpointId,
-        endpoint.Description ?? "",
-        metadata?.DeviceModel,
-        metadata?.Address,
-        parsed.temperature,
-        parsed.targetTemperature,
-        parsed.fanSpeed,
-        parsed.modeId,
-        values,
-        metadata ?? {},
         endpoint,
+        state.values.get(endpointId) ?? [],
+        state.devices.get(endpointId),
       );
+      const previous = state.statuses[endpointId];
+      state.statuses[endpointId] = status;
+      if (
+        !previous ||
+        JSON.stringify(previous.toJSON()) !== JSON.stringify(status.toJSON())
+      ) {
+        state.changedAt.set(endpointId, nextRevision);
+        state.removedAt.delete(endpointId);
+        changed.push(endpointId);
+      }
     }
 
-    return devices;
+    if (changed.length > 0 || removed.length > 0) {
+      state.revision = nextRevision;
+    }
+
+    const newSerials = data.NewSerials as JsonObject | undefined;
+    for (const key of DATA_PACKET_SERIAL_KEYS) {
+      const serial = newSerials?.[key];
+      if (typeof serial === "number" && Number.isFinite(serial)) {
+        state.serials[key] = serial;
+      }
+    }
+
+    return { changed, removed };
+  }
+
+  private buildDeviceStatus(
+    endpointId: number,
+    endpoint: RawEndpoint,
+    values: RawEndpointValue[],
+    metadata: RawDevice | undefined,
+  ): DeviceStatus {
+    const parsed = this.parseRawValues(values);
+    return new DeviceStatus(
+      endpointId,
+      endpoint.Description ?? "",
+      metadata?.DeviceModel,
+      metadata?.Address,
+      parsed.temperature,
+      parsed.targetTemperature,
+      parsed.fanSpeed,
+      parsed.modeId,
+      values,
+      metadata ?? {},
+      endpoint,
+    );
+  }
+
+  private formatCursor(state: HomeSyncState): string {
+    return `${state.syncId}.${state.revision}`;
+  }
+
+  private parseCursor(
+    state: HomeSyncState,
+    cursor: string | null | undefined,
+  ): number | null {
+    if (!cursor) {
+      return null;
+    }
+    const [syncId, rawRevision] = cursor.split(".");
+    const revision = Number(rawRevision);
+    if (
+      syncId !== state.syncId ||
+      !Number.isInteger(revision) ||
+      revision > state.revision
+    ) {
+      return null;
+    }
+    return revision;
   }
 
   private normaliseValues(
@@ -3,9 +3,16 @@ export {
   BGHAuthenticationError,
   BGHClient,
   type BGHClientOptions,
+  type DataPacketSerials,
+  type DeviceCapabilities,
+  type DeviceChangeSet,
   type DeviceStatusMap,
+  type DeviceSyncResult,
   type HomeSummary,
+  type TemperatureRange,
+  type UpstreamScene,
   DeviceStatus,
+  deriveCapabilities,
   FAN_MODES,
   HVAC_MODES,
   DEFAULT_TIMEOUT_MS,
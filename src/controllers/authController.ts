@@ -1,40 +1,148 @@
 import { type Request, type Response } from "express";
-import type { CookieOptions } from "express";
 import type { Logger } from "pino";
 
-import logger from "../logger";
 import {
-  SESSION_COOKIE_NAME,
-  SESSION_TTL_MS,
+  type Session,
+  clearSessionCookie,
   createSession,
   deleteSession,
   getSessionFromRequest,
+  listUserSessions,
+  resolveRequestSession,
+  revokeSession as revokeUserSession,
+  revokeUserSessions,
+  setSessionCookie,
+  toSessionSummary,
+  updateUserCredentials,
 } from "../services/authService";
-import { BGHServiceError, validateCredentials } from "../services/bghService";
+import {
+  type SealedCredentials,
+  sealCredentials,
+} from "../services/credentialVault";
+import {
+  checkLoginAttempt,
+  recordLoginFailure,
+  recordLoginSuccess,
+  releaseLoginAttempt,
+} from "../services/loginThrottle";
+import { issueStreamTicket } from "../services/streamTicket";
+import {
+  BGHServiceError,
+  releaseClients,
+  validateCredentials,
+} from "../services/bghService";
+import { getRequestLogger } from "./requestHelpers";
 
-type LoggedRequest = Request & { log?: Logger };
+const normaliseString = (value: unknown): string | null => {
+  if (typeof value !== "string") {
+    return null;
+  }
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+};
 
-const getRequestLogger = (req: Request): Logger => {
-  const request = req as LoggedRequest;
-  return request.log ?? logger;
+const requireSession = (
+  req: Request,
+  res: Response,
+  log: Logger,
+): Session | null => {
+  const session = getSessionFromRequest(req);
+  if (!session) {
+    log.debug("No active session found");
+    res.status(401).json({
+      code: "UNAUTHENTICATED",
+      message: "No hay una sesión activa.",
+    });
+    return null;
+  }
+  return session;
 };
 
-const isProduction = process.env.NODE_ENV === "production";
+const sendValidationError = (
+  error: unknown,
+  email: string,
+  res: Response,
+  log: Logger,
+): void => {
+  if (error instanceof BGHServiceError) {
+    if (error.code === "AUTHENTICATION_ERROR") {
+      log.warn({ email }, "Invalid credentials provided");
+      res.status(401).json({
+        code: "INVALID_CREDENTIALS",
+        message: "Email o contraseña incorrectos.",
+      });
+      return;
+    }
+
+    log.error(
+      { email, err: error },
+      "Failed to validate credentials against BGH",
+    );
+    res.status(502).json({
+      code: "BGH_VALIDATION_FAILED",
+      message:
+        "No pudimos validar tus credenciales con el servicio de BGH. Intentalo nuevamente en unos minutos.",
+    });
+    return;
+  }
 
-const COOKIE_OPTIONS: CookieOptions = {
-  httpOnly: true,
-  sameSite: isProduction ? ("none" as const) : "lax",
-  secure: isProduction,
-  path: "/",
-  maxAge: SESSION_TTL_MS,
+  log.error({ email, err: error }, "Unexpected validation failure");
+  res.status(500).json({
+    code: "AUTH_VALIDATION_ERROR",
+    message: "No pudimos validar tus credenciales en este momento.",
+  });
 };
 
-const normaliseString = (value: unknown): string | null => {
-  if (typeof value !== "string") {
-    return null;
+const getClientIp = (req: Request): string | null =>
+  req.ip ?? req.socket.remoteAddress ?? null;
+
+/**
+ * Validates credentials against BGH unless the client or the email is being
+ * throttled for repeated failures. Sends the error response and returns false
+ * when the attempt did not succeed.
+ */
+const validateWithThrottle = async (
+  req: Request,
+  res: Response,
+  log: Logger,
+  credentials: SealedCredentials,
+): Promise<boolean> => {
+  const attempt = { ip: getClientIp(req), email: credentials.email };
+  const throttle = checkLoginAttempt(attempt);
+  if (!throttle.allowed) {
+    log.warn(
+      { email: credentials.email, ip: attempt.ip },
+      "Blocked throttled login attempt",
+    );
+    res.set("Retry-After", String(Math.ceil(throttle.retryAfterMs / 1000)));
+    res.status(429).json({
+      code: "TOO_MANY_ATTEMPTS",
+      message:
+        "Demasiados intentos fallidos. Esperá unos minutos antes de volver a intentarlo.",
+    });
+    return false;
   }
-  const trimmed = value.trim();
-  return trimmed.length > 0 ? trimmed : null;
+
+  try {
+    await validateCredentials(
+      credentials,
+      log.child({ phase: "validateCredentials" }),
+    );
+  } catch (error) {
+    if (
+      error instanceof BGHServiceError &&
+      error.code === "AUTHENTICATION_ERROR"
+    ) {
+      recordLoginFailure(attempt);
+    } else {
+      releaseLoginAttempt(attempt);
+    }
+    sendValidationError(error, credentials.email, res, log);
+    return false;
+  }
+
+  recordLoginSuccess(attempt);
+  return true;
 };
 
 export const login = async (req: Request, res: Response): Promise<void> => {
@@ -54,50 +162,23 @@ export const login = async (req: Request, res: Response): Promise<void> => {
     return;
   }
 
-  try {
-    await validateCredentials(
-      { email, password },
-      log.child({ phase: "validateCredentials" }),
-    );
-  } catch (error) {
-    if (error instanceof BGHServiceError) {
-      if (error.code === "AUTHENTICATION_ERROR") {
-        log.warn({ email }, "Invalid credentials provided");
-        res.status(401).json({
-          code: "INVALID_CREDENTIALS",
-          message: "Email o contraseña incorrectos.",
-        });
-        return;
-      }
-
-      log.error(
-        { email, err: error },
-        "Failed to validate credentials against BGH",
-      );
-      res.status(502).json({
-        code: "BGH_VALIDATION_FAILED",
-        message:
-          "No pudimos validar tus credenciales con el servicio de BGH. Intentalo nuevamente en unos minutos.",
-      });
-      return;
-    }
-
-    log.error({ email, err: error }, "Unexpected validation failure");
-    res.status(500).json({
-      code: "AUTH_VALIDATION_ERROR",
-      message: "No pudimos validar tus credenciales en este momento.",
-    });
+  const credentials = sealCredentials(email, password);
+  if (!(await validateWithThrottle(req, res, log, credentials))) {
     return;
   }
 
-  const session = createSession(email, password);
-  res.cookie(SESSION_COOKIE_NAME, session.token, COOKIE_OPTIONS);
+  const session = createSession(credentials, {
+    userAgent: req.get("user-agent") ?? null,
+    ip: getClientIp(req),
+  });
+  setSessionCookie(res, session);
   log.info({ email }, "User authenticated");
   res.json({
     user: {
       email,
     },
     sessionToken: session.token,
+    csrfToken: session.csrfToken,
   });
 };
 
@@ -106,17 +187,18 @@ export const logout = (req: Request, res: Response): void => {
   const session = getSessionFromRequest(req);
   if (session) {
     deleteSession(session.token);
+    releaseClients(session.email, log);
     log.info({ email: session.email }, "Session terminated");
   }
 
-  res.clearCookie(SESSION_COOKIE_NAME, COOKIE_OPTIONS);
+  clearSessionCookie(res);
   res.status(204).end();
 };
 
 export const currentUser = (req: Request, res: Response): void => {
   const log = getRequestLogger(req).child({ route: "authCurrentUser" });
-  const session = getSessionFromRequest(req);
-  if (!session) {
+  const resolved = resolveRequestSession(req);
+  if (!resolved) {
     log.debug("No active session found");
     res.status(401).json({
       code: "UNAUTHENTICATED",
@@ -125,10 +207,138 @@ export const currentUser = (req: Request, res: Response): void => {
     return;
   }
 
+  const { session, source } = resolved;
+  if (source === "cookie") {
+    setSessionCookie(res, session);
+  }
   log.debug({ email: session.email }, "Returning authenticated user");
   res.json({
     user: {
       email: session.email,
     },
+    reauthRequired: session.reauthRequired,
+    csrfToken: session.csrfToken,
+    session: {
+      expiresAt: session.expiresAt,
+      absoluteExpiresAt: session.absoluteExpiresAt,
+    },
   });
 };
+
+/**
+ * Accepts the BGH password again for a session whose stored credentials were
+ * rejected upstream, and unblocks every session of the user.
+ */
+export const reauthenticate = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  const log = getRequestLogger(req).child({ route: "authReauthenticate" });
+  const session = requireSession(req, res, log);
+  if (!session) {
+    return;
+  }
+
+  const password = normaliseString(req.body?.password);
+  if (!password) {
+    log.warn("Missing password in re-authentication request");
+    res.status(400).json({
+      code: "INVALID_BODY",
+      message: "Debés enviar una contraseña válida.",
+    });
+    return;
+  }
+
+  const credentials = sealCredentials(session.email, password);
+  if (!(await validateWithThrottle(req, res, log, credentials))) {
+    return;
+  }
+
+  releaseClients(session.email, log);
+  const updated = updateUserCredentials(credentials);
+  log.info(
+    { email: session.email, sessions: updated },
+    "User re-authenticated",
+  );
+  res.json({
+    user: {
+      email: session.email,
+    },
+    reauthRequired: false,
+  });
+};
+
+export const listSessions = (req: Request, res: Response): void => {
+  const log = getRequestLogger(req).child({ route: "authListSessions" });
+  const session = requireSession(req, res, log);
+  if (!session) {
+    return;
+  }
+
+  const sessions = listUserSessions(session.email).map((candidate) =>
+    toSessionSummary(candidate, session.token),
+  );
+  log.debug(
+    { email: session.email, count: sessions.length },
+    "Listing user sessions",
+  );
+  res.json({ sessions });
+};
+
+export const revokeSession = (req: Request, res: Response): void => {
+  const log = getRequestLogger(req).child({ route: "authRevokeSession" });
+  const session = requireSession(req, res, log);
+  if (!session) {
+    return;
+  }
+
+  const revoked = revokeUserSession(session.email, req.params.id);
+  if (!revoked) {
+    log.warn(
+      { email: session.email, sessionId: req.params.id },
+      "Session to revoke not found",
+    );
+    res.status(404).json({
+      code: "SESSION_NOT_FOUND",
+      message: "No encontramos esa sesión.",
+    });
+    return;
+  }
+
+  if (revoked.token === session.token) {
+    clearSessionCookie(res);
+  }
+  log.info({ email: session.email, sessionId: revoked.id }, "Session revoked");
+  res.status(204).end();
+};
+
+/** Signs the user out everywhere, including the session making the call. */
+export const logoutAll = (req: Request, res: Response): void => {
+  const log = getRequestLogger(req).child({ route: "authLogoutAll" });
+  const session = requireSession(req, res, log);
+  if (!session) {
+    return;
+  }
+
+  const revoked = revokeUserSessions(session.email);
+  releaseClients(session.email, log);
+  log.info({ email: session.email, sessions: revoked }, "All sessions revoked");
+  clearSessionCookie(res);
+  res.status(204).end();
+};
+
+/**
+ * Issues a short-lived, single-use ticket for opening the event stream, so
+ * the session token never travels in a URL.
+ */
+export const createStreamTicket = (req: Request, res: Response): void => {
+  const log = getRequestLogger(req).child({ route: "authStreamTicket" });
+  const session = requireSession(req, res, log);
+  if (!session) {
+    return;
+  }
+
+  const issued = issueStreamTicket(session.token);
+  log.debug({ email: session.email }, "Issued event stream ticket");
+  res.status(201).json(issued);
+};
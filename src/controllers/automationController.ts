@@ -0,0 +1,131 @@
+import { type Request, type Response } from "express";
+import type { Logger } from "pino";
+import {
+  AutomationError,
+  createAutomation as createAutomationService,
+  deleteAutomation as deleteAutomationService,
+  getAutomation as getAutomationService,
+  listAutomations as listAutomationsService,
+  updateAutomation as updateAutomationService,
+} from "../services/automationService";
+import { getOwnerEmail, getRequestLogger, parseHomeId } from "./requestHelpers";
+
+const handleAutomationError = (
+  error: unknown,
+  log: Logger,
+  res: Response,
+): void => {
+  if (error instanceof AutomationError) {
+    const status = error.code === "NOT_FOUND" ? 404 : 400;
+    log.warn({ code: error.code }, error.message);
+    res.status(status).json({
+      code: error.code,
+      message: error.message,
+    });
+    return;
+  }
+
+  log.error({ err: error }, "Unexpected automation failure");
+  res.status(500).json({
+    code: "INTERNAL_SERVER_ERROR",
+    message: "Unexpected server error.",
+  });
+};
+
+export const listAutomations = (req: Request, res: Response): void => {
+  const log = getRequestLogger(req).child({ route: "listAutomations" });
+  const homeId = parseHomeId(req, res, log);
+  if (homeId === null) {
+    return;
+  }
+
+  const automations = listAutomationsService(getOwnerEmail(req), homeId);
+  log.debug({ homeId, count: automations.length }, "Automations retrieved");
+  res.json({ automations });
+};
+
+export const getAutomation = (req: Request, res: Response): void => {
+  const log = getRequestLogger(req).child({ route: "getAutomation" });
+  const homeId = parseHomeId(req, res, log);
+  if (homeId === null) {
+    return;
+  }
+
+  try {
+    const automation = getAutomationService(
+      getOwnerEmail(req),
+      homeId,
+      req.params.automationId,
+    );
+    res.json({ automation });
+  } catch (error) {
+    handleAutomationError(error, log, res);
+  }
+};
+
+export const createAutomation = (req: Request, res: Response): void => {
+  const log = getRequestLogger(req).child({ route: "createAutomation" });
+  const homeId = parseHomeId(req, res, log);
+  if (homeId === null) {
+    return;
+  }
+
+  try {
+    const automation = createAutomationService(
+      getOwnerEmail(req),
+      homeId,
+      req.body ?? {},
+    );
+    log.info(
+      { homeId, automationId: automation.id, deviceId: automation.deviceId },
+      "Automation created",
+    );
+    res.status(201).json({ automation });
+  } catch (error) {
+    handleAutomationError(error, log, res);
+  }
+};
+
+export const updateAutomation = (req: Request, res: Response): void => {
+  const log = getRequestLogger(req).child({ route: "updateAutomation" });
+  const homeId = parseHomeId(req, res, log);
+  if (homeId === null) {
+    return;
+  }
+
+  try {
+    const automation = updateAutomationService(
+      getOwnerEmail(req),
+      homeId,
+      req.params.automationId,
+      req.body ?? {},
+    );
+    log.info({ homeId, automationId: automation.id }, "Automation updated");
+    res.json({ automation });
+  } catch (error) {
+    handleAutomationError(error, log, res);
+  }
+};
+
+export const deleteAutomation = (req: Request, res: Response): void => {
+  const log = getRequestLogger(req).child({ route: "deleteAutomation" });
+  const homeId = parseHomeId(req, res, log);
+  if (homeId === null) {
+    return;
+  }
+
+  try {
+    deleteAutomationService(
+      getOwnerEmail(req),
+      homeId,
+      req.params.automationId,
+    );
+    log.info(
+      { homeId, automationId: req.params.automationId },
+      "Automation deleted",
+    );
+    res.status(204).end();
+  } catch (error) {
+    handleAutomationError(error, log, res);
+  }
+};
@@ -1,20 +1,33 @@
 import { type NextFunction, type Request, type Response } from "express";
 import type { Logger } from "pino";
-import logger from "../logger";
 import {
-  BGHServiceError,
+  getDeviceChanges as getDeviceChangesService,
   getDeviceStatus as getDeviceStatusService,
   listDevices as listDevicesService,
   listHomes as listHomesService,
+  listUpstreamScenes as listUpstreamScenesService,
   type BghCredentials,
-  type BghServiceErrorCode,
 } from "../services/bghService";
-import { FAN_MODES, HVAC_MODES } from "integrations/bgh/client";
-import { enqueueCommand, type CommandPayload } from "../services/commandQueue";
+import {
+  FAN_MODES,
+  HVAC_MODES,
+  type DeviceStatus,
+  type TemperatureRange,
+} from "integrations/bgh/client";
+import {
+  enqueueCommand,
+  getCommandJob as getCommandJobService,
+  getPendingPayload,
+  listCommandJobs as listCommandJobsService,
+  type CommandPayload,
+} from "../services/commandQueue";
+import { findUnsupportedSetting } from "../services/commandValidation";
+import { getRememberedState } from "../services/deviceMemory";
+import { watchHome } from "../services/devicePoller";
 import { registerClient } from "../services/eventStream";
 import type { AuthenticatedRequest } from "../middleware/requireAuth";
-
-type LoggedRequest = Request & { log: Logger };
+import { handleBghError } from "./bghErrors";
+import { getRequestLogger, parseNumericParam } from "./requestHelpers";
 
 type Controller = (
   req: Request,
@@ -22,92 +35,16 @@ type Controller = (
   next: NextFunction,
 ) => Promise<void>;
 
-const getRequestLogger = (req: Request): Logger => {
-  const request = req as LoggedRequest;
-  const baseLogger = request.log ?? logger;
-  const authenticated = req as Partial<AuthenticatedRequest> & LoggedRequest;
-  const userEmail = authenticated.auth?.email;
-
-  if (userEmail) {
-    return baseLogger.child({ userEmail });
-  }
-
-  return baseLogger;
-};
-
 const getCredentials = (req: Request): BghCredentials => {
   const { auth } = req as AuthenticatedRequest;
-  return { email: auth.email, password: auth.password };
-};
-
-const sendServiceError = (
-  error: BGHServiceError,
-  res: Response,
-  log: Logger,
-): void => {
-  const status = mapStatus(error.code);
-  log.error({ err: error, status }, "Service error response");
-  res.status(status).json({
-    code: error.code,
-    message: error.message,
-  });
-};
-
-const mapStatus = (code: BghServiceErrorCode): number => {
-  switch (code) {
-    case "NOT_FOUND":
-      return 404;
-    case "AUTHENTICATION_ERROR":
-      return 401;
-    case "UPSTREAM_ERROR":
-      return 502;
-    case "CONFIGURATION_ERROR":
-      return 500;
-    default:
-      return 500;
-  }
+  return auth.credentials;
 };
 
-const handleError = (
-  error: unknown,
-  log: Logger,
-  res: Response,
-  next: NextFunction,
-): void => {
-  if (error instanceof BGHServiceError) {
-    sendServiceError(error, res, log);
-    return;
-  }
-  log.error({ err: error }, "Unhandled controller error");
-  next(error);
-};
-
-const parseNumericParam = (
-  log: Logger,
-  value: string | undefined,
-  name: string,
-  res: Response,
-): number | null => {
-  if (!value) {
-    const message = `Missing required parameter '${name}'.`;
-    log.warn({ param: name }, message);
-    res.status(400).json({
-      code: "INVALID_PARAMETER",
-      message,
-    });
-    return null;
-  }
-  const parsed = Number(value);
-  if (!Number.isFinite(parsed)) {
-    const message = `Parameter '${name}' must be a valid number. Received '${value}'.`;
-    log.warn({ param: name, value }, message);
-    res.status(400).json({
-      code: "INVALID_PARAMETER",
-      message,
-    });
-    return null;
-  }
-  return parsed;
+const isFreshRequested = (req: Request): boolean => {
+  const raw = Array.isArray(req.query.fresh)
+    ? req.query.fresh[0]
+    : req.query.fresh;
+  return raw === "true" || raw === "1";
 };
 
 export const listHomes: Controller = async (req, res, next) => {
@@ -118,7 +55,7 @@ export const listHomes: Controller = async (req, res, next) => {
     log.info({ homeCount: homes.length }, "Homes retrieved");
     res.json({ homes });
   } catch (error) {
-    handleError(error, log, res, next);
+    handleBghError(req, error, log, res, next);
   }
 };
 
@@ -129,16 +66,49 @@ export const listDevices: Controller = async (req, res, next) => {
     return;
   }
 
-  log.info({ homeId }, "Listing devices for home");
+  const fresh = isFreshRequested(req);
+  log.info({ homeId, fresh }, "Listing devices for home");
   try {
-    const devices = await listDevicesService(getCredentials(req), homeId, log);
+    const devices = await listDevicesService(getCredentials(req), homeId, log, {
+      fresh,
+    });
     log.info(
       { homeId, deviceCount: Object.keys(devices).length },
       "Devices retrieved",
     );
     res.json({ devices });
   } catch (error) {
-    handleError(error, log, res, next);
+    handleBghError(req, error, log, res, next);
+  }
+};
+
+export const listDeviceChanges: Controller = async (req, res, next) => {
+  const log = getRequestLogger(req).child({ route: "listDeviceChanges" });
+  const homeId = parseNumericParam(log, req.params.homeId, "homeId", res);
+  if (homeId === null) {
+    return;
+  }
+
+  const since =
+    typeof req.query.since === "string" && req.query.since.length > 0
+      ? req.query.since
+      : null;
+
+  log.info({ homeId, since }, "Listing device changes for home");
+  try {
+    const changes = await getDeviceChangesService(
+      getCredentials(req),
+      homeId,
+      since,
+      log,
+    );
+    log.info(
+      { homeId, full: changes.full, cursor: changes.cursor },
+      "Device changes retrieved",
+    );
+    res.json(changes);
+  } catch (error) {
+    handleBghError(req, error, log, res, next);
   }
 };
 
@@ -154,22 +124,103 @@ export const getDeviceStatus: Controller = async (req, res, next) => {
     return;
   }
 
-  log.info({ homeId, deviceId }, "Fetching device status");
+  const fresh = isFreshRequested(req);
+  log.info({ homeId, deviceId, fresh }, "Fetching device status");
   try {
     const device = await getDeviceStatusService(
       getCredentials(req),
       homeId,
       deviceId,
       log,
+      { fresh },
     );
     log.info({ homeId, deviceId }, "Device status retrieved");
     res.json({ device });
   } catch (error) {
-    handleError(error, log, res, next);
+    handleBghError(req, error, log, res, next);
+  }
+};
+
+const sendInvalidBody = (
+  res: Response,
+  log: Logger,
+  message: string,
+  context: Record<string, unknown>,
+): void => {
+  log.warn(context, message);
+  res.status(400).json({
+    code: "INVALID_BODY",
+    message,
+  });
+};
+
+/** Reads the device's current state, answering the request on failure. */
+const loadDevice = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  log: Logger,
+  homeId: number,
+  deviceId: number,
+): Promise<DeviceStatus | null> => {
+  try {
+    return await getDeviceStatusService(
+      getCredentials(req),
+      homeId,
+      deviceId,
+      log,
+    );
+  } catch (error) {
+    handleBghError(req, error, log, res, next);
+    return null;
   }
 };
 
-export const setDeviceMode: Controller = async (req, res, _next) => {
+/**
+ * Checks the command against the device's capabilities and queues it,
+ * answering 202 with the job so the client can follow it.
+ */
+const queueCheckedCommand = (
+  req: Request,
+  res: Response,
+  log: Logger,
+  device: DeviceStatus,
+  command: {
+    homeId: number;
+    deviceId: number;
+    payload: CommandPayload;
+    temperatureFromDevice?: boolean;
+  },
+): void => {
+  const { homeId, deviceId, payload, temperatureFromDevice } = command;
+  const unsupported = findUnsupportedSetting(device.capabilities, payload);
+  if (unsupported) {
+    log.warn({ deviceId, ...payload }, unsupported);
+    res.status(400).json({
+      code: "UNSUPPORTED_SETTING",
+      message: unsupported,
+    });
+    return;
+  }
+
+  log.info({ homeId, deviceId, ...payload }, "Queueing device mode update");
+
+  const { jobId, position } = enqueueCommand({
+    credentials: getCredentials(req),
+    homeId,
+    deviceId,
+    payload,
+    log,
+    temperatureFromDevice,
+  });
+
+  res.status(202).json({
+    jobId,
+    position,
+  });
+};
+
+export const setDeviceMode: Controller = async (req, res, next) => {
   const log = getRequestLogger(req).child({ route: "setDeviceMode" });
   const deviceId = parseNumericParam(log, req.params.deviceId, "deviceId", res);
   if (deviceId === null) {
@@ -243,27 +294,339 @@ export const setDeviceMode: Controller = async (req, res, _next) => {
     payload.flags = flags as CommandPayload["flags"];
   }
 
-  log.info(
-    { deviceId, mode, targetTemperature, fan, flags, homeId },
-    "Queueing device mode update",
-  );
+  const device = await loadDevice(req, res, next, log, homeId, deviceId);
+  if (!device) {
+    return;
+  }
 
-  const credentials = getCredentials(req);
-  const { jobId, position } = enqueueCommand({
-    credentials,
+  queueCheckedCommand(req, res, log, device, { homeId, deviceId, payload });
+};
+
+export const updateDevice: Controller = async (req, res, next) => {
+  const log = getRequestLogger(req).child({ route: "updateDevice" });
+  const homeId = parseNumericParam(log, req.params.homeId, "homeId", res);
+  if (homeId === null) {
+    return;
+  }
+
+  const deviceId = parseNumericParam(log, req.params.deviceId, "deviceId", res);
+  if (deviceId === null) {
+    return;
+  }
+
+  const { mode, targetTemperature, fan } = req.body ?? {};
+  if (
+    mode === undefined &&
+    targetTemperature === undefined &&
+    fan === undefined
+  ) {
+    sendInvalidBody(
+      res,
+      log,
+      "Body must include at least one of 'mode', 'targetTemperature' or 'fan'.",
+      { deviceId },
+    );
+    return;
+  }
+
+  if (
+    mode !== undefined &&
+    (typeof mode !== "string" || !(mode in HVAC_MODES))
+  ) {
+    sendInvalidBody(res, log, `Unsupported mode '${String(mode)}'.`, {
+      deviceId,
+      mode,
+    });
+    return;
+  }
+
+  if (
+    targetTemperature !== undefined &&
+    (typeof targetTemperature !== "number" ||
+      !Number.isFinite(targetTemperature))
+  ) {
+    sendInvalidBody(res, log, "Field 'targetTemperature' must be a number.", {
+      deviceId,
+    });
+    return;
+  }
+
+  if (fan !== undefined && (typeof fan !== "string" || !(fan in FAN_MODES))) {
+    sendInvalidBody(res, log, `Unsupported fan mode '${String(fan)}'.`, {
+      deviceId,
+      fan,
+    });
+    return;
+  }
+
+  const device = await loadDevice(req, res, next, log, homeId, deviceId);
+  if (!device) {
+    return;
+  }
+
+  // The setpoint has no sentinel, so keep the one the unit reports.
+  const resolvedTemperature =
+    (targetTemperature as number | undefined) ?? device.targetTemperature;
+  if (resolvedTemperature === null) {
+    const message =
+      "The device does not report a target temperature; include 'targetTemperature'.";
+    log.warn({ homeId, deviceId }, message);
+    res.status(409).json({
+      code: "DEVICE_STATE_UNKNOWN",
+      message,
+    });
+    return;
+  }
+
+  const payload: CommandPayload = {
+    mode: (mode as CommandPayload["mode"] | undefined) ?? "no_change",
+    targetTemperature: resolvedTemperature,
+    fan: (fan as CommandPayload["fan"] | undefined) ?? "no_change",
+  };
+
+  queueCheckedCommand(req, res, log, device, {
     homeId,
     deviceId,
     payload,
-    log,
+    temperatureFromDevice: targetTemperature === undefined,
   });
+};
 
-  res.status(202).json({
-    jobId,
-    position,
-  });
+const POWER_STATES = new Set(["on", "off", "toggle"]);
+
+export const setDevicePower: Controller = async (req, res, next) => {
+  const log = getRequestLogger(req).child({ route: "setDevicePower" });
+  const deviceId = parseNumericParam(log, req.params.deviceId, "deviceId", res);
+  if (deviceId === null) {
+    return;
+  }
+
+  const { state, homeId } = req.body ?? {};
+  if (typeof homeId !== "number" || !Number.isFinite(homeId)) {
+    sendInvalidBody(res, log, "Body must include a numeric 'homeId' field.", {
+      deviceId,
+    });
+    return;
+  }
+
+  if (typeof state !== "string" || !POWER_STATES.has(state)) {
+    sendInvalidBody(
+      res,
+      log,
+      "Field 'state' must be one of 'on', 'off' or 'toggle'.",
+      { deviceId, state },
+    );
+    return;
+  }
+
+  const device = await loadDevice(req, res, next, log, homeId, deviceId);
+  if (!device) {
+    return;
+  }
+
+  // A command still in the queue decides what the unit is about to be.
+  const pending = getPendingPayload(
+    getCredentials(req).email,
+    homeId,
+    deviceId,
+  );
+  const isOn =
+    pending && pending.mode !== "no_change"
+      ? pending.mode !== "off"
+      : device.modeId !== null && device.modeId !== HVAC_MODES.off;
+  const turnOn = state === "toggle" ? !isOn : state === "on";
+  const { capabilities } = device;
+  const remembered = getRememberedState(homeId, deviceId);
+
+  // Restore the last mode the unit ran in, or its first supported one.
+  const mode = !turnOn
+    ? "off"
+    : remembered &&
+        (capabilities.modes === null ||
+          capabilities.modes.includes(remembered.mode))
+      ? remembered.mode
+      : capabilities.modes?.find((candidate) => candidate !== "off");
+  // While off the unit ignores the setpoint, but the command needs one.
+  const targetTemperature =
+    (turnOn
+      ? (remembered?.targetTemperature ?? device.targetTemperature)
+      : (device.targetTemperature ?? remembered?.targetTemperature)) ??
+    capabilities.temperature.min;
+  if (!mode || targetTemperature === null) {
+    const message = !mode
+      ? "The device does not report any mode to turn on in."
+      : "The device does not report a target temperature.";
+    log.warn({ homeId, deviceId }, message);
+    res.status(409).json({
+      code: "DEVICE_STATE_UNKNOWN",
+      message,
+    });
+    return;
+  }
+
+  const payload: CommandPayload = {
+    mode: mode as CommandPayload["mode"],
+    targetTemperature,
+    fan: (turnOn
+      ? (remembered?.fan ?? "no_change")
+      : "no_change") as CommandPayload["fan"],
+  };
+
+  queueCheckedCommand(req, res, log, device, { homeId, deviceId, payload });
+};
+
+// Only the limits the unit reports are applied.
+const snapToRange = (value: number, range: TemperatureRange): number => {
+  const base = range.min ?? 0;
+  const snapped =
+    range.step !== null
+      ? base + Math.round((value - base) / range.step) * range.step
+      : value;
+  return Math.min(
+    Math.max(snapped, range.min ?? -Infinity),
+    range.max ?? Infinity,
+  );
+};
+
+export const stepDeviceTemperature: Controller = async (req, res, next) => {
+  const log = getRequestLogger(req).child({ route: "stepDeviceTemperature" });
+  const deviceId = parseNumericParam(log, req.params.deviceId, "deviceId", res);
+  if (deviceId === null) {
+    return;
+  }
+
+  const { delta, homeId } = req.body ?? {};
+  if (typeof homeId !== "number" || !Number.isFinite(homeId)) {
+    sendInvalidBody(res, log, "Body must include a numeric 'homeId' field.", {
+      deviceId,
+    });
+    return;
+  }
+
+  if (typeof delta !== "number" || !Number.isFinite(delta) || delta === 0) {
+    sendInvalidBody(
+      res,
+      log,
+      "Body must include a non-zero numeric 'delta' field.",
+      { deviceId, delta },
+    );
+    return;
+  }
+
+  const device = await loadDevice(req, res, next, log, homeId, deviceId);
+  if (!device) {
+    return;
+  }
+
+  // Quick repeated steps build on the setpoint still waiting in the queue.
+  const currentTarget =
+    getPendingPayload(getCredentials(req).email, homeId, deviceId)
+      ?.targetTemperature ?? device.targetTemperature;
+  if (currentTarget === null) {
+    const message = "The device does not report a target temperature.";
+    log.warn({ homeId, deviceId }, message);
+    res.status(409).json({
+      code: "DEVICE_STATE_UNKNOWN",
+      message,
+    });
+    return;
+  }
+
+  const payload: CommandPayload = {
+    mode: "no_change",
+    targetTemperature: snapToRange(
+      currentTarget + delta,
+      device.capabilities.temperature,
+    ),
+    fan: "no_change",
+  };
+
+  queueCheckedCommand(req, res, log, device, { homeId, deviceId, payload });
+};
+
+export const listUpstreamScenes: Controller = async (req, res, next) => {
+  const log = getRequestLogger(req).child({ route: "listUpstreamScenes" });
+  const homeId = parseNumericParam(log, req.params.homeId, "homeId", res);
+  if (homeId === null) {
+    return;
+  }
+
+  log.info({ homeId }, "Listing BGH scenes for home");
+  try {
+    const scenes = await listUpstreamScenesService(
+      getCredentials(req),
+      homeId,
+      log,
+    );
+    res.json({ scenes });
+  } catch (error) {
+    handleBghError(req, error, log, res, next);
+  }
 };
 
+export const getCommandJob = (req: Request, res: Response): void => {
+  const log = getRequestLogger(req).child({ route: "getCommandJob" });
+  const { jobId } = req.params;
+  const { email } = (req as AuthenticatedRequest).auth;
+
+  const job = jobId ? getCommandJobService(jobId, email) : null;
+  if (!job) {
+    const message = `Command job '${jobId}' not found.`;
+    log.warn({ jobId }, message);
+    res.status(404).json({
+      code: "NOT_FOUND",
+      message,
+    });
+    return;
+  }
+
+  log.debug({ jobId, state: job.state }, "Command job retrieved");
+  res.json({ job });
+};
+
+export const listCommandJobs = (req: Request, res: Response): void => {
+  const log = getRequestLogger(req).child({ route: "listCommandJobs" });
+  const { email } = (req as AuthenticatedRequest).auth;
+
+  let deviceId: number | undefined;
+  if (req.query.deviceId !== undefined) {
+    const parsed = parseNumericParam(
+      log,
+      typeof req.query.deviceId === "string" ? req.query.deviceId : undefined,
+      "deviceId",
+      res,
+    );
+    if (parsed === null) {
+      return;
+    }
+    deviceId = parsed;
+  }
+
+  const jobs = listCommandJobsService(email, { deviceId });
+  log.debug({ deviceId, jobCount: jobs.length }, "Command jobs retrieved");
+  res.json({ jobs });
+};
+
+/**
+ * Streams the events of one home. `homeId` is required because the stream
+ * is what keeps that home polled in the background.
+ */
 export const streamDeviceEvents = (req: Request, res: Response): void => {
   const log = getRequestLogger(req).child({ route: "streamDeviceEvents" });
-  registerClient(req, res, log);
+  const homeId = parseNumericParam(
+    log,
+    typeof req.query.homeId === "string" ? req.query.homeId : undefined,
+    "homeId",
+    res,
+  );
+  if (homeId === null) {
+    return;
+  }
+
+  const credentials = getCredentials(req);
+  registerClient(req, res, log, { email: credentials.email, homeId });
+
+  // Background polling keeps the device cache warm while the stream is open.
+  const unwatch = watchHome(credentials, homeId, log);
+  req.on("close", unwatch);
 };
@@ -0,0 +1,85 @@
+import { type NextFunction, type Request, type Response } from "express";
+import type { Logger } from "pino";
+import type { AuthenticatedRequest } from "../middleware/requireAuth";
+import { markReauthRequired } from "../services/authService";
+import {
+  BGHServiceError,
+  type BghServiceErrorCode,
+} from "../services/bghService";
+import { UpstreamBusyError } from "../services/upstreamLimiter";
+
+// BGH rejected the stored password even after a fresh login, so the session
+// stays blocked until the user re-enters it.
+const requireReauthentication = (
+  req: Request,
+  error: BGHServiceError,
+  res: Response,
+  log: Logger,
+): void => {
+  const { auth } = req as Partial<AuthenticatedRequest>;
+  if (auth) {
+    markReauthRequired(auth.token);
+  }
+  log.warn({ err: error }, "Session requires re-authentication");
+  res.status(401).json({
+    code: "REAUTHENTICATION_REQUIRED",
+    message: "Necesitás volver a ingresar tu contraseña de BGH.",
+  });
+};
+
+const sendServiceError = (
+  error: BGHServiceError,
+  res: Response,
+  log: Logger,
+): void => {
+  const status = mapStatus(error.code);
+  log.error({ err: error, status }, "Service error response");
+  if (error.cause instanceof UpstreamBusyError) {
+    res.set("Retry-After", String(Math.ceil(error.cause.retryAfterMs / 1000)));
+  }
+  res.status(status).json({
+    code: error.code,
+    message: error.message,
+  });
+};
+
+const mapStatus = (code: BghServiceErrorCode): number => {
+  switch (code) {
+    case "NOT_FOUND":
+      return 404;
+    case "AUTHENTICATION_ERROR":
+      return 401;
+    case "UPSTREAM_ERROR":
+      return 502;
+    case "UPSTREAM_BUSY":
+      return 503;
+    case "CONFIGURATION_ERROR":
+      return 500;
+    default:
+      return 500;
+  }
+};
+
+/**
+ * Answers a failed BGH call: a rejected password blocks the session until the
+ * user signs in again, other service errors map to their HTTP status and
+ * anything unexpected goes to the error middleware.
+ */
+export const handleBghError = (
+  req: Request,
+  error: unknown,
+  log: Logger,
+  res: Response,
+  next: NextFunction,
+): void => {
+  if (error instanceof BGHServiceError) {
+    if (error.code === "AUTHENTICATION_ERROR") {
+      requireReauthentication(req, error, res, log);
+      return;
+    }
+    sendServiceError(error, res, log);
+    return;
+  }
+  log.error({ err: error }, "Unhandled controller error");
+  next(error);
+};
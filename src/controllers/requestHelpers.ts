@@ -0,0 +1,52 @@
+import { type Request, type Response } from "express";
+import type { Logger } from "pino";
+import logger from "../logger";
+import type { AuthenticatedRequest } from "../middleware/requireAuth";
+
+type LoggedRequest = Request & { log?: Logger };
+
+/** The request's logger, tagged with the signed-in user when there is one. */
+export const getRequestLogger = (req: Request): Logger => {
+  const request = req as LoggedRequest;
+  const { auth } = req as Partial<AuthenticatedRequest>;
+  const baseLogger = request.log ?? logger;
+  return auth ? baseLogger.child({ userEmail: auth.email }) : baseLogger;
+};
+
+export const getOwnerEmail = (req: Request): string =>
+  (req as AuthenticatedRequest).auth.email;
+
+/** Reads a numeric route or query parameter, answering 400 when invalid. */
+export const parseNumericParam = (
+  log: Logger,
+  value: string | undefined,
+  name: string,
+  res: Response,
+): number | null => {
+  if (!value) {
+    const message = `Missing required parameter '${name}'.`;
+    log.warn({ param: name }, message);
+    res.status(400).json({
+      code: "INVALID_PARAMETER",
+      message,
+    });
+    return null;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    const message = `Parameter '${name}' must be a valid number. Received '${value}'.`;
+    log.warn({ param: name, value }, message);
+    res.status(400).json({
+      code: "INVALID_PARAMETER",
+      message,
+    });
+    return null;
+  }
+  return parsed;
+};
+
+export const parseHomeId = (
+  req: Request,
+  res: Response,
+  log: Logger,
+): number | null => parseNumericParam(log, req.params.homeId, "homeId", res);
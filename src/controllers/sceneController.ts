@@ -0,0 +1,189 @@
+import { type NextFunction, type Request, type Response } from "express";
+import type { Logger } from "pino";
+import type { DeviceStatusMap } from "integrations/bgh/client";
+import type { AuthenticatedRequest } from "../middleware/requireAuth";
+import { listDevices as listDevicesService } from "../services/bghService";
+import { findUnsupportedSetting } from "../services/commandValidation";
+import {
+  SceneError,
+  applyScene as applySceneService,
+  createScene as createSceneService,
+  deleteScene as deleteSceneService,
+  getScene as getSceneService,
+  getSceneRun as getSceneRunService,
+  listScenes as listScenesService,
+  updateScene as updateSceneService,
+} from "../services/sceneService";
+import { handleBghError } from "./bghErrors";
+import { getOwnerEmail, getRequestLogger, parseHomeId } from "./requestHelpers";
+
+const handleSceneError = (error: unknown, log: Logger, res: Response): void => {
+  if (error instanceof SceneError) {
+    const status = error.code === "NOT_FOUND" ? 404 : 400;
+    log.warn({ code: error.code }, error.message);
+    res.status(status).json({
+      code: error.code,
+      message: error.message,
+    });
+    return;
+  }
+
+  log.error({ err: error }, "Unexpected scene failure");
+  res.status(500).json({
+    code: "INTERNAL_SERVER_ERROR",
+    message: "Unexpected server error.",
+  });
+};
+
+export const listScenes = (req: Request, res: Response): void => {
+  const log = getRequestLogger(req).child({ route: "listScenes" });
+  const homeId = parseHomeId(req, res, log);
+  if (homeId === null) {
+    return;
+  }
+
+  const scenes = listScenesService(getOwnerEmail(req), homeId);
+  log.debug({ homeId, count: scenes.length }, "Scenes retrieved");
+  res.json({ scenes });
+};
+
+export const getScene = (req: Request, res: Response): void => {
+  const log = getRequestLogger(req).child({ route: "getScene" });
+  const homeId = parseHomeId(req, res, log);
+  if (homeId === null) {
+    return;
+  }
+
+  try {
+    const scene = getSceneService(
+      getOwnerEmail(req),
+      homeId,
+      req.params.sceneId,
+    );
+    res.json({ scene });
+  } catch (error) {
+    handleSceneError(error, log, res);
+  }
+};
+
+export const createScene = (req: Request, res: Response): void => {
+  const log = getRequestLogger(req).child({ route: "createScene" });
+  const homeId = parseHomeId(req, res, log);
+  if (homeId === null) {
+    return;
+  }
+
+  try {
+    const scene = createSceneService(
+      getOwnerEmail(req),
+      homeId,
+      req.body ?? {},
+    );
+    log.info(
+      { homeId, sceneId: scene.id, entryCount: scene.entries.length },
+      "Scene created",
+    );
+    res.status(201).json({ scene });
+  } catch (error) {
+    handleSceneError(error, log, res);
+  }
+};
+
+export const updateScene = (req: Request, res: Response): void => {
+  const log = getRequestLogger(req).child({ route: "updateScene" });
+  const homeId = parseHomeId(req, res, log);
+  if (homeId === null) {
+    return;
+  }
+
+  try {
+    const scene = updateSceneService(
+      getOwnerEmail(req),
+      homeId,
+      req.params.sceneId,
+      req.body ?? {},
+    );
+    log.info({ homeId, sceneId: scene.id }, "Scene updated");
+    res.json({ scene });
+  } catch (error) {
+    handleSceneError(error, log, res);
+  }
+};
+
+export const deleteScene = (req: Request, res: Response): void => {
+  const log = getRequestLogger(req).child({ route: "deleteScene" });
+  const homeId = parseHomeId(req, res, log);
+  if (homeId === null) {
+    return;
+  }
+
+  try {
+    deleteSceneService(getOwnerEmail(req), homeId, req.params.sceneId);
+    log.info({ homeId, sceneId: req.params.sceneId }, "Scene deleted");
+    res.status(204).end();
+  } catch (error) {
+    handleSceneError(error, log, res);
+  }
+};
+
+export const applyScene = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  const log = getRequestLogger(req).child({ route: "applyScene" });
+  const homeId = parseHomeId(req, res, log);
+  if (homeId === null) {
+    return;
+  }
+
+  const { sceneId } = req.params;
+  try {
+    getSceneService(getOwnerEmail(req), homeId, sceneId);
+  } catch (error) {
+    handleSceneError(error, log, res);
+    return;
+  }
+
+  const { credentials } = (req as AuthenticatedRequest).auth;
+  let devices: DeviceStatusMap;
+  try {
+    devices = await listDevicesService(credentials, homeId, log);
+  } catch (error) {
+    handleBghError(req, error, log, res, next);
+    return;
+  }
+
+  log.info({ homeId, sceneId }, "Applying scene");
+  const run = applySceneService(homeId, sceneId, {
+    credentials,
+    log,
+    checkEntry: ({ deviceId, ...payload }) => {
+      const device = devices[deviceId];
+      if (!device) {
+        return `Device ${deviceId} not found for home ${homeId}.`;
+      }
+      return findUnsupportedSetting(device.capabilities, payload);
+    },
+  });
+  res.status(202).json({ run });
+};
+
+export const getSceneRun = (req: Request, res: Response): void => {
+  const log = getRequestLogger(req).child({ route: "getSceneRun" });
+  const { runId } = req.params;
+
+  const run = runId ? getSceneRunService(runId, getOwnerEmail(req)) : null;
+  if (!run) {
+    const message = `Scene run '${runId}' not found.`;
+    log.warn({ runId }, message);
+    res.status(404).json({
+      code: "NOT_FOUND",
+      message,
+    });
+    return;
+  }
+
+  log.debug({ runId, state: run.state }, "Scene run retrieved");
+  res.json({ run });
+};
@@ -0,0 +1,156 @@
+import { type Request, type Response } from "express";
+import type { Logger } from "pino";
+import {
+  ScheduleError,
+  createSchedule as createScheduleService,
+  deleteSchedule as deleteScheduleService,
+  getHomeTimezone,
+  getSchedule as getScheduleService,
+  listSchedules as listSchedulesService,
+  setHomeTimezone as setHomeTimezoneService,
+  updateSchedule as updateScheduleService,
+} from "../services/scheduleService";
+import { getOwnerEmail, getRequestLogger, parseHomeId } from "./requestHelpers";
+
+const handleScheduleError = (
+  error: unknown,
+  log: Logger,
+  res: Response,
+): void => {
+  if (error instanceof ScheduleError) {
+    const status = error.code === "NOT_FOUND" ? 404 : 400;
+    log.warn({ code: error.code }, error.message);
+    res.status(status).json({
+      code: error.code,
+      message: error.message,
+    });
+    return;
+  }
+
+  log.error({ err: error }, "Unexpected schedule failure");
+  res.status(500).json({
+    code: "INTERNAL_SERVER_ERROR",
+    message: "Unexpected server error.",
+  });
+};
+
+export const listSchedules = (req: Request, res: Response): void => {
+  const log = getRequestLogger(req).child({ route: "listSchedules" });
+  const homeId = parseHomeId(req, res, log);
+  if (homeId === null) {
+    return;
+  }
+
+  const schedules = listSchedulesService(getOwnerEmail(req), homeId);
+  log.debug({ homeId, count: schedules.length }, "Schedules retrieved");
+  res.json({
+    timezone: getHomeTimezone(getOwnerEmail(req), homeId),
+    schedules,
+  });
+};
+
+export const getSchedule = (req: Request, res: Response): void => {
+  const log = getRequestLogger(req).child({ route: "getSchedule" });
+  const homeId = parseHomeId(req, res, log);
+  if (homeId === null) {
+    return;
+  }
+
+  try {
+    const schedule = getScheduleService(
+      getOwnerEmail(req),
+      homeId,
+      req.params.scheduleId,
+    );
+    res.json({ schedule });
+  } catch (error) {
+    handleScheduleError(error, log, res);
+  }
+};
+
+export const createSchedule = (req: Request, res: Response): void => {
+  const log = getRequestLogger(req).child({ route: "createSchedule" });
+  const homeId = parseHomeId(req, res, log);
+  if (homeId === null) {
+    return;
+  }
+
+  try {
+    const schedule = createScheduleService(
+      getOwnerEmail(req),
+      homeId,
+      req.body ?? {},
+    );
+    log.info(
+      { homeId, scheduleId: schedule.id, nextRunAt: schedule.nextRunAt },
+      "Schedule created",
+    );
+    res.status(201).json({ schedule });
+  } catch (error) {
+    handleScheduleError(error, log, res);
+  }
+};
+
+export const updateSchedule = (req: Request, res: Response): void => {
+  const log = getRequestLogger(req).child({ route: "updateSchedule" });
+  const homeId = parseHomeId(req, res, log);
+  if (homeId === null) {
+    return;
+  }
+
+  try {
+    const schedule = updateScheduleService(
+      getOwnerEmail(req),
+      homeId,
+      req.params.scheduleId,
+      req.body ?? {},
+    );
+    log.info({ homeId, scheduleId: schedule.id }, "Schedule updated");
+    res.json({ schedule });
+  } catch (error) {
+    handleScheduleError(error, log, res);
+  }
+};
+
+export const deleteSchedule = (req: Request, res: Response): void => {
+  const log = getRequestLogger(req).child({ route: "deleteSchedule" });
+  const homeId = parseHomeId(req, res, log);
+  if (homeId === null) {
+    return;
+  }
+
+  try {
+    deleteScheduleService(getOwnerEmail(req), homeId, req.params.scheduleId);
+    log.info({ homeId, scheduleId: req.params.scheduleId }, "Schedule deleted");
+    res.status(204).end();
+  } catch (error) {
+    handleScheduleError(error, log, res);
+  }
+};
+
+export const setHomeTimezone = (req: Request, res: Response): void => {
+  const log = getRequestLogger(req).child({ route: "setHomeTimezone" });
+  const homeId = parseHomeId(req, res, log);
+  if (homeId === null) {
+    return;
+  }
+
+  const timezone = req.body?.timezone;
+  if (typeof timezone !== "string" || timezone.trim().length === 0) {
+    const message = "Body must include a non-empty 'timezone' field.";
+    log.warn({ homeId }, message);
+    res.status(400).json({
+      code: "INVALID_BODY",
+      message,
+    });
+    return;
+  }
+
+  try {
+    setHomeTimezoneService(getOwnerEmail(req), homeId, timezone.trim());
+    log.info({ homeId, timezone }, "Home timezone updated");
+    res.json({ timezone: getHomeTimezone(getOwnerEmail(req), homeId) });
+  } catch (error) {
+    handleScheduleError(error, log, res);
+  }
+};
@@ -11,11 +11,33 @@ import type { Logger } from "pino";
 import logger from "./logger";
 import bghRoutes from "app/routes/bghRoutes";
 import authRoutes from "app/routes/authRoutes";
+import {
+  findCredentialsForUser,
+  startSessionPurgeTimer,
+} from "./services/authService";
+import { startAutomationEngine } from "./services/automationService";
+import { restoreCommandQueue } from "./services/commandQueue";
+import { startScheduler } from "./services/scheduleService";
 
 type LoggedRequest = Request & { log: Logger };
 
 const app = express();
 const PORT = Number(process.env.PORT) || 4000;
+// Behind a reverse proxy `req.ip` is the proxy's address unless Express is
+// told which hops to trust; login throttling keys on it.
+// Accepts `true`/`false`, a hop count, or the address list Express takes.
+const parseTrustProxy = (value: string): boolean | number | string => {
+  const lowered = value.toLowerCase();
+  if (lowered === "true" || lowered === "false") {
+    return lowered === "true";
+  }
+  const hops = Number(value);
+  return Number.isInteger(hops) ? hops : value;
+};
+const trustProxy = process.env.TRUST_PROXY?.trim();
+if (trustProxy) {
+  app.set("trust proxy", parseTrustProxy(trustProxy));
+}
 const rawAllowedOrigins = process.env.CORS_ALLOWED_ORIGINS ?? "";
 const allowedOrigins = rawAllowedOrigins
   .split(",")
@@ -54,6 +76,13 @@ const corsOptions: CorsOptions = {
     callback(new Error(`Origin not allowed: ${origin ?? "<unknown>"}`));
   },
   credentials: true,
+  // Not CORS-safelisted, so browsers hide them from other origins otherwise.
+  exposedHeaders: [
+    "RateLimit-Limit",
+    "RateLimit-Remaining",
+    "RateLimit-Reset",
+    "Retry-After",
+  ],
   optionsSuccessStatus: 204,
 };
 
@@ -109,6 +138,20 @@ app.use(
   },
 );
 
+startSessionPurgeTimer();
+restoreCommandQueue({
+  resolveCredentials: findCredentialsForUser,
+  log: logger,
+});
+startScheduler({
+  resolveCredentials: findCredentialsForUser,
+  log: logger,
+});
+startAutomationEngine({
+  resolveCredentials: findCredentialsForUser,
+  log: logger,
+});
+
 app.listen(PORT, () => {
   logger.info({ port: PORT }, "Servidor backend escuchando");
 });
@@ -0,0 +1,125 @@
+import { type NextFunction, type Request, type Response } from "express";
+import type { Logger } from "pino";
+
+import logger from "../logger";
+import type { AuthenticatedRequest } from "./requireAuth";
+
+type LoggedRequest = Request & { log?: Logger };
+
+interface RateLimitWindow {
+  count: number;
+  resetAt: number;
+}
+
+export interface RateLimitOptions {
+  /** Budget name, used to keep the counters of each limiter apart. */
+  name: string;
+  limitEnvKey: string;
+  defaultLimit: number;
+}
+
+const WINDOW_ENV_KEY = "API_RATE_LIMIT_WINDOW_MS";
+const DEFAULT_WINDOW_MS = 60_000;
+
+const limitLog = logger.child({ middleware: "rateLimit" });
+
+const getLogger = (req: Request): Logger => {
+  const request = req as LoggedRequest;
+  return request.log ?? logger;
+};
+
+const resolvePositiveInteger = (envKey: string, fallback: number): number => {
+  const rawValue = process.env[envKey];
+  if (!rawValue) {
+    return fallback;
+  }
+  const parsed = Number(rawValue);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    limitLog.warn(
+      { envKey, value: rawValue },
+      "Invalid rate limit setting, using default",
+    );
+    return fallback;
+  }
+  return parsed;
+};
+
+/**
+ * Fixed-window limiter keyed by session, meant to run after `requireAuth`.
+ * Every response carries the `RateLimit-*` headers so clients can pace
+ * themselves before hitting the 429.
+ */
+export const createRateLimit = (options: RateLimitOptions) => {
+  const windows = new Map<string, RateLimitWindow>();
+  let lastSweepAt = 0;
+
+  const sweep = (now: number, windowMs: number): void => {
+    if (now - lastSweepAt < windowMs) {
+      return;
+    }
+    lastSweepAt = now;
+    for (const [key, window] of windows) {
+      if (window.resetAt <= now) {
+        windows.delete(key);
+      }
+    }
+  };
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const { auth } = req as AuthenticatedRequest;
+    const limit = resolvePositiveInteger(
+      options.limitEnvKey,
+      options.defaultLimit,
+    );
+    const windowMs = resolvePositiveInteger(WINDOW_ENV_KEY, DEFAULT_WINDOW_MS);
+    const now = Date.now();
+    sweep(now, windowMs);
+
+    let window = windows.get(auth.token);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(auth.token, window);
+    }
+    window.count += 1;
+
+    const resetSeconds = Math.ceil((window.resetAt - now) / 1000);
+    res.set("RateLimit-Limit", String(limit));
+    res.set("RateLimit-Remaining", String(Math.max(limit - window.count, 0)));
+    res.set("RateLimit-Reset", String(resetSeconds));
+
+    if (window.count > limit) {
+      getLogger(req).warn(
+        { email: auth.email, budget: options.name, path: req.path },
+        "Rate limit exceeded",
+      );
+      res.set("Retry-After", String(resetSeconds));
+      res.status(429).json({
+        code: "RATE_LIMITED",
+        message: "Too many requests, please slow down.",
+      });
+      return;
+    }
+
+    next();
+  };
+};
+
+export const readRateLimit = createRateLimit({
+  name: "read",
+  limitEnvKey: "API_READ_RATE_LIMIT",
+  defaultLimit: 120,
+});
+
+export const commandRateLimit = createRateLimit({
+  name: "command",
+  limitEnvKey: "API_COMMAND_RATE_LIMIT",
+  defaultLimit: 30,
+});
+
+// Editing schedules, scenes and automations has its own budget so it never
+// eats into the one left for device commands.
+export const configRateLimit = createRateLimit({
+  name: "config",
+  limitEnvKey: "API_CONFIG_RATE_LIMIT",
+  defaultLimit: 60,
+});
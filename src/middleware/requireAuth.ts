@@ -2,15 +2,24 @@ import { type NextFunction, type Request, type Response } from "express";
 import type { Logger } from "pino";
 
 import logger from "../logger";
-import { getSessionFromRequest } from "../services/authService";
+import {
+  type Session,
+  getSession,
+  getSessionCredentials,
+  resolveRequestSession,
+  setSessionCookie,
+} from "../services/authService";
+import type { SealedCredentials } from "../services/credentialVault";
+import { redeemStreamTicket } from "../services/streamTicket";
 
 type LoggedRequest = Request & { log?: Logger };
 
 export interface AuthenticatedRequest extends Request {
   auth: {
     email: string;
-    password: string;
     token: string;
+    /** Opaque credentials for the BGH services; the password stays sealed. */
+    credentials: SealedCredentials;
   };
 }
 
@@ -19,27 +28,81 @@ const getLogger = (req: Request): Logger => {
   return request.log ?? logger;
 };
 
-export const requireAuth = (
+const rejectUnauthenticated = (req: Request, res: Response): void => {
+  const log = getLogger(req).child({ middleware: "requireAuth" });
+  log.warn({ path: req.path }, "Blocked unauthenticated request");
+  res.status(401).json({
+    code: "UNAUTHENTICATED",
+    message: "Necesitás iniciar sesión para continuar.",
+  });
+};
+
+/** Attaches the session to the request unless it is blocked for re-auth. */
+const authorizeSession = (
   req: Request,
   res: Response,
   next: NextFunction,
+  session: Session,
 ): void => {
-  const session = getSessionFromRequest(req);
-  if (!session) {
+  if (session.reauthRequired) {
     const log = getLogger(req).child({ middleware: "requireAuth" });
-    log.warn({ path: req.path }, "Blocked unauthenticated request");
+    log.warn(
+      { path: req.path, email: session.email },
+      "Blocked request that needs re-authentication",
+    );
     res.status(401).json({
-      code: "UNAUTHENTICATED",
-      message: "Necesitás iniciar sesión para continuar.",
+      code: "REAUTHENTICATION_REQUIRED",
+      message: "Necesitás volver a ingresar tu contraseña de BGH.",
     });
     return;
   }
 
   (req as AuthenticatedRequest).auth = {
     email: session.email,
-    password: session.password,
     token: session.token,
+    credentials: getSessionCredentials(session),
   };
 
   next();
 };
+
+export const requireAuth = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const resolved = resolveRequestSession(req);
+  if (!resolved) {
+    rejectUnauthenticated(req, res);
+    return;
+  }
+
+  const { session, source } = resolved;
+  // The idle window just slid; keep the browser cookie in step with it.
+  if (source === "cookie" && !session.reauthRequired) {
+    setSessionCookie(res, session);
+  }
+
+  authorizeSession(req, res, next, session);
+};
+
+/**
+ * Authenticates the event stream through a single-use `?ticket=` obtained
+ * from `POST /api/auth/stream-ticket`, since `EventSource` cannot send
+ * headers.
+ */
+export const requireStreamTicket = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const ticket = typeof req.query.ticket === "string" ? req.query.ticket : "";
+  const sessionToken = ticket ? redeemStreamTicket(ticket) : null;
+  const session = sessionToken ? getSession(sessionToken) : null;
+  if (!session) {
+    rejectUnauthenticated(req, res);
+    return;
+  }
+
+  authorizeSession(req, res, next, session);
+};
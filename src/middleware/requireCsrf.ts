@@ -0,0 +1,65 @@
+import { timingSafeEqual } from "crypto";
+import { type NextFunction, type Request, type Response } from "express";
+import type { Logger } from "pino";
+
+import logger from "../logger";
+import { resolveRequestSession } from "../services/authService";
+
+type LoggedRequest = Request & { log?: Logger };
+
+export const CSRF_HEADER_NAME = "x-csrf-token";
+
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+const getLogger = (req: Request): Logger => {
+  const request = req as LoggedRequest;
+  return request.log ?? logger;
+};
+
+const tokensMatch = (provided: string, expected: string): boolean => {
+  const providedBuffer = Buffer.from(provided);
+  const expectedBuffer = Buffer.from(expected);
+  return (
+    providedBuffer.length === expectedBuffer.length &&
+    timingSafeEqual(providedBuffer, expectedBuffer)
+  );
+};
+
+/**
+ * Requires the session's CSRF token in the `X-CSRF-Token` header on
+ * state-changing requests authenticated by the session cookie. Bearer
+ * requests are exempt since browsers never attach those on their own, and
+ * requests without a session are left to the route to reject.
+ */
+export const requireCsrf = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  if (SAFE_METHODS.has(req.method)) {
+    next();
+    return;
+  }
+
+  const resolved = resolveRequestSession(req);
+  if (!resolved || resolved.source !== "cookie") {
+    next();
+    return;
+  }
+
+  const provided = req.get(CSRF_HEADER_NAME);
+  if (provided && tokensMatch(provided, resolved.session.csrfToken)) {
+    next();
+    return;
+  }
+
+  const log = getLogger(req).child({ middleware: "requireCsrf" });
+  log.warn(
+    { path: req.path, email: resolved.session.email, hasToken: !!provided },
+    "Blocked request with a missing or invalid CSRF token",
+  );
+  res.status(403).json({
+    code: "INVALID_CSRF_TOKEN",
+    message: "La solicitud no incluye un token CSRF válido.",
+  });
+};
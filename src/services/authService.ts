@@ -1,53 +1,223 @@
 import { randomBytes } from "crypto";
-import type { Request } from "express";
+import type { CookieOptions, Request, Response } from "express";
+import logger from "../logger";
+import type { SealedCredentials } from "./credentialVault";
+import { createSessionStore, type SessionStore } from "./sessionStore";
 
 export interface Session {
+  /** Public identifier used to manage the session; never the token. */
+  id: string;
   token: string;
   email: string;
-  password: string;
+  /** BGH password encrypted with the server-side key, never in clear text. */
+  sealedPassword: string;
+  /** Set when BGH rejected the stored password and the user must log in. */
+  reauthRequired: boolean;
+  /** Synchronizer token required on cookie-authenticated mutations. */
+  csrfToken: string;
+  userAgent: string | null;
+  ip: string | null;
   createdAt: number;
+  lastActivityAt: number;
+  /** Idle expiry, pushed forward on activity but never past the hard limit. */
   expiresAt: number;
+  /** Hard limit after which the user has to log in again regardless. */
+  absoluteExpiresAt: number;
 }
 
-const sessions = new Map<string, Session>();
+export interface SessionMetadata {
+  userAgent?: string | null;
+  ip?: string | null;
+}
+
+/** Session details safe to show to their owner. */
+export interface SessionSummary {
+  id: string;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: number;
+  lastActivityAt: number;
+  expiresAt: number;
+  absoluteExpiresAt: number;
+  current: boolean;
+}
+
+let store: SessionStore = createSessionStore();
 
 export const SESSION_COOKIE_NAME = "cygnus_session";
-export const SESSION_TTL_MS = 1000 * 60 * 60 * 12; // 12 hours
+
+const IDLE_TIMEOUT_ENV_KEY = "SESSION_IDLE_TIMEOUT_MS";
+const DEFAULT_IDLE_TIMEOUT_MS = 1000 * 60 * 60 * 12; // 12 hours
+const MAX_LIFETIME_ENV_KEY = "SESSION_MAX_LIFETIME_MS";
+const DEFAULT_MAX_LIFETIME_MS = 1000 * 60 * 60 * 24 * 7; // 7 days
+
+const PURGE_INTERVAL_ENV_KEY = "SESSION_PURGE_INTERVAL_MS";
+const DEFAULT_PURGE_INTERVAL_MS = 1000 * 60 * 10; // 10 minutes
+
+const authLog = logger.child({ service: "authService" });
+
+const resolveDuration = (envKey: string, fallback: number): number => {
+  const rawValue = process.env[envKey];
+  if (!rawValue) {
+    return fallback;
+  }
+  const parsed = Number(rawValue);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    authLog.warn(
+      { envKey, value: rawValue },
+      "Invalid session duration, using default",
+    );
+    return fallback;
+  }
+  return parsed;
+};
+
+export const resolveIdleTimeout = (): number =>
+  resolveDuration(IDLE_TIMEOUT_ENV_KEY, DEFAULT_IDLE_TIMEOUT_MS);
+
+export const resolveMaxLifetime = (): number =>
+  resolveDuration(MAX_LIFETIME_ENV_KEY, DEFAULT_MAX_LIFETIME_MS);
+
+const slideExpiry = (session: Session, now: number): number =>
+  Math.min(now + resolveIdleTimeout(), session.absoluteExpiresAt);
+
+/** Swaps the session backend; sessions in the previous store are dropped. */
+export const setSessionStore = (sessionStore: SessionStore): void => {
+  store = sessionStore;
+};
 
 const generateToken = (): string => randomBytes(32).toString("base64url");
+const generateSessionId = (): string => randomBytes(12).toString("base64url");
 
-export const createSession = (email: string, password: string): Session => {
+const isSameUser = (session: Session, email: string): boolean =>
+  session.email.toLowerCase() === email.toLowerCase();
+
+export const createSession = (
+  credentials: SealedCredentials,
+  metadata: SessionMetadata = {},
+): Session => {
   const now = Date.now();
   const token = generateToken();
+  const absoluteExpiresAt = now + resolveMaxLifetime();
   const session: Session = {
+    id: generateSessionId(),
     token,
-    email,
-    password,
+    email: credentials.email,
+    sealedPassword: credentials.sealedPassword,
+    reauthRequired: false,
+    csrfToken: generateToken(),
+    userAgent: metadata.userAgent ?? null,
+    ip: metadata.ip ?? null,
     createdAt: now,
-    expiresAt: now + SESSION_TTL_MS,
+    lastActivityAt: now,
+    expiresAt: Math.min(now + resolveIdleTimeout(), absoluteExpiresAt),
+    absoluteExpiresAt,
   };
-  sessions.set(token, session);
+  store.set(session);
   return session;
 };
 
 export const getSession = (token: string): Session | null => {
-  const session = sessions.get(token);
+  const session = store.get(token);
   if (!session) {
     return null;
   }
 
-  if (session.expiresAt <= Date.now()) {
-    sessions.delete(token);
+  const now = Date.now();
+  if (session.expiresAt <= now) {
+    store.delete(token);
     return null;
   }
 
-  // Refresh expiry on activity to keep the session alive.
-  session.expiresAt = Date.now() + SESSION_TTL_MS;
+  // Slide the idle window on activity, capped by the absolute lifetime.
+  session.lastActivityAt = now;
+  session.expiresAt = slideExpiry(session, now);
+  store.touch(session);
   return session;
 };
 
 export const deleteSession = (token: string): void => {
-  sessions.delete(token);
+  store.delete(token);
+};
+
+export const toSessionSummary = (
+  session: Session,
+  currentToken?: string,
+): SessionSummary => ({
+  id: session.id,
+  userAgent: session.userAgent,
+  ip: session.ip,
+  createdAt: session.createdAt,
+  lastActivityAt: session.lastActivityAt,
+  expiresAt: session.expiresAt,
+  absoluteExpiresAt: session.absoluteExpiresAt,
+  current: session.token === currentToken,
+});
+
+export const listUserSessions = (email: string): Session[] => {
+  const now = Date.now();
+  return store
+    .list()
+    .filter((session) => isSameUser(session, email) && session.expiresAt > now)
+    .sort((a, b) => b.lastActivityAt - a.lastActivityAt);
+};
+
+/**
+ * Deletes the user's session with the given public ID. Returns the revoked
+ * session, or null when it does not exist or belongs to someone else.
+ */
+export const revokeSession = (email: string, id: string): Session | null => {
+  const session = store
+    .list()
+    .find((candidate) => candidate.id === id && isSameUser(candidate, email));
+  if (!session) {
+    return null;
+  }
+  store.delete(session.token);
+  return session;
+};
+
+export const revokeUserSessions = (email: string): number => {
+  let revoked = 0;
+  for (const session of store.list()) {
+    if (isSameUser(session, email)) {
+      store.delete(session.token);
+      revoked += 1;
+    }
+  }
+  return revoked;
+};
+
+export const getSessionCredentials = (session: Session): SealedCredentials => ({
+  email: session.email,
+  sealedPassword: session.sealedPassword,
+});
+
+export const markReauthRequired = (token: string): void => {
+  const session = store.get(token);
+  if (session) {
+    session.reauthRequired = true;
+    store.set(session);
+  }
+};
+
+/**
+ * Stores freshly validated credentials on every session of the user and
+ * clears their re-authentication flag.
+ */
+export const updateUserCredentials = (
+  credentials: SealedCredentials,
+): number => {
+  let updated = 0;
+  for (const session of store.list()) {
+    if (isSameUser(session, credentials.email)) {
+      session.sealedPassword = credentials.sealedPassword;
+      session.reauthRequired = false;
+      store.set(session);
+      updated += 1;
+    }
+  }
+  return updated;
 };
 
 const parseCookies = (
@@ -73,29 +243,29 @@ const parseCookies = (
     }, {});
 };
 
-export const getSessionFromRequest = (req: Request): Session | null => {
+export type SessionSource = "bearer" | "cookie";
+
+export interface RequestSession {
+  session: Session;
+  source: SessionSource;
+}
+
+/**
+ * Resolves the request's session along with where its token came from. Tokens
+ * are never read from the query string; the event stream uses tickets.
+ */
+export const resolveRequestSession = (req: Request): RequestSession | null => {
   const authHeader = req.headers.authorization;
   if (authHeader) {
     const [scheme, tokenCandidate] = authHeader.split(" ");
     if (scheme?.toLowerCase() === "bearer" && tokenCandidate) {
       const session = getSession(tokenCandidate);
       if (session) {
-        return session;
+        return { session, source: "bearer" };
       }
     }
   }
 
-  const queryTokenRaw = (req.query?.token ?? null) as string | string[] | null;
-  const queryToken = Array.isArray(queryTokenRaw)
-    ? queryTokenRaw[0]
-    : queryTokenRaw;
-  if (typeof queryToken === "string" && queryToken.length > 0) {
-    const session = getSession(queryToken);
-    if (session) {
-      return session;
-    }
-  }
-
   const header = req.headers.cookie;
   if (!header) {
     return null;
@@ -107,14 +277,82 @@ export const getSessionFromRequest = (req: Request): Session | null => {
     return null;
   }
 
-  return getSession(token);
+  const session = getSession(token);
+  return session ? { session, source: "cookie" } : null;
 };
 
-export const purgeExpiredSessions = (): void => {
+export const getSessionFromRequest = (req: Request): Session | null =>
+  resolveRequestSession(req)?.session ?? null;
+
+const isProduction = process.env.NODE_ENV === "production";
+
+const COOKIE_OPTIONS: CookieOptions = {
+  httpOnly: true,
+  sameSite: isProduction ? ("none" as const) : "lax",
+  secure: isProduction,
+  path: "/",
+};
+
+/**
+ * Sets the session cookie so it lapses together with the session. Called
+ * again whenever the idle window slides so the browser keeps up.
+ */
+export const setSessionCookie = (res: Response, session: Session): void => {
+  res.cookie(SESSION_COOKIE_NAME, session.token, {
+    ...COOKIE_OPTIONS,
+    maxAge: Math.max(session.expiresAt - Date.now(), 0),
+  });
+};
+
+export const clearSessionCookie = (res: Response): void => {
+  res.clearCookie(SESSION_COOKIE_NAME, COOKIE_OPTIONS);
+};
+
+export const purgeExpiredSessions = (): number => {
   const now = Date.now();
-  for (const [token, session] of sessions.entries()) {
+  let purged = 0;
+  for (const session of store.list()) {
     if (session.expiresAt <= now) {
-      sessions.delete(token);
+      store.delete(session.token);
+      purged += 1;
+    }
+  }
+  return purged;
+};
+
+/**
+ * Purges expired sessions periodically. Returns a function that stops it.
+ */
+export const startSessionPurgeTimer = (): (() => void) => {
+  const parsed = Number(process.env[PURGE_INTERVAL_ENV_KEY]);
+  const interval =
+    Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_PURGE_INTERVAL_MS;
+  const timer = setInterval(() => {
+    const purged = purgeExpiredSessions();
+    if (purged > 0) {
+      authLog.debug({ purged }, "Purged expired sessions");
+    }
+  }, interval);
+  timer.unref();
+  return () => clearInterval(timer);
+};
+
+/**
+ * Returns the credentials held by any live session of the user, used to
+ * resume work that outlived the request that started it.
+ */
+export const findCredentialsForUser = (
+  email: string,
+): SealedCredentials | null => {
+  const now = Date.now();
+  for (const session of store.list()) {
+    if (
+      isSameUser(session, email) &&
+      session.expiresAt > now &&
+      !session.reauthRequired
+    ) {
+      return getSessionCredentials(session);
     }
   }
+  return null;
 };
@@ -0,0 +1,178 @@
+import type { DeviceStatus } from "integrations/bgh";
+import { HVAC_MODES } from "integrations/bgh/client";
+import type { ModeKey } from "./commandQueue";
+import { parseTimeOfDay } from "./scheduleRules";
+
+/**
+ * One clause of an automation. Every condition of a rule must hold for it to
+ * fire: `temperature` compares the room reading, `mode` the unit's current
+ * mode and `time` the home's local time, with windows allowed to wrap past
+ * midnight.
+ */
+export type AutomationCondition =
+  | { type: "temperature"; operator: "above" | "below"; value: number }
+  | { type: "mode"; modes: ModeKey[] }
+  | { type: "time"; start: string; end: string };
+
+export class AutomationRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AutomationRuleError";
+  }
+}
+
+const findModeName = (modeId: number | null): string | null => {
+  if (modeId === null) {
+    return null;
+  }
+  const entry = Object.entries(HVAC_MODES).find(
+    ([name, value]) => value === modeId && name !== "no_change",
+  );
+  return entry ? entry[0] : null;
+};
+
+const normaliseCondition = (
+  input: unknown,
+  index: number,
+): AutomationCondition => {
+  if (typeof input !== "object" || input === null) {
+    throw new AutomationRuleError(`Condition ${index} must be an object.`);
+  }
+  const condition = input as Record<string, unknown>;
+
+  if (condition.type === "temperature") {
+    if (condition.operator !== "above" && condition.operator !== "below") {
+      throw new AutomationRuleError(
+        `Condition ${index} 'operator' must be 'above' or 'below'.`,
+      );
+    }
+    if (
+      typeof condition.value !== "number" ||
+      !Number.isFinite(condition.value)
+    ) {
+      throw new AutomationRuleError(
+        `Condition ${index} 'value' must be a number.`,
+      );
+    }
+    return {
+      type: "temperature",
+      operator: condition.operator,
+      value: condition.value,
+    };
+  }
+
+  if (condition.type === "mode") {
+    const modes = Array.isArray(condition.modes) ? condition.modes : [];
+    if (
+      modes.length === 0 ||
+      !modes.every(
+        (mode) =>
+          typeof mode === "string" &&
+          mode in HVAC_MODES &&
+          mode !== "no_change",
+      )
+    ) {
+      throw new AutomationRuleError(
+        `Condition ${index} 'modes' must list known HVAC modes.`,
+      );
+    }
+    return { type: "mode", modes: Array.from(new Set(modes as string[])) };
+  }
+
+  if (condition.type === "time") {
+    if (
+      typeof condition.start !== "string" ||
+      typeof condition.end !== "string" ||
+      parseTimeOfDay(condition.start) === null ||
+      parseTimeOfDay(condition.end) === null ||
+      condition.start === condition.end
+    ) {
+      throw new AutomationRuleError(
+        `Condition ${index} needs different 'start' and 'end' times like 'HH:mm'.`,
+      );
+    }
+    return { type: "time", start: condition.start, end: condition.end };
+  }
+
+  throw new AutomationRuleError(
+    `Condition ${index} 'type' must be one of 'temperature', 'mode' or 'time'.`,
+  );
+};
+
+/**
+ * Checks the conditions received from a client and returns them in canonical
+ * form. Throws an `AutomationRuleError` describing the first problem found.
+ */
+export const normaliseConditions = (input: unknown): AutomationCondition[] => {
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new AutomationRuleError(
+      "Field 'conditions' must list at least one condition.",
+    );
+  }
+  return input.map(normaliseCondition);
+};
+
+const isWithinWindow = (
+  condition: { start: string; end: string },
+  minuteOfDay: number,
+): boolean => {
+  const start = parseTimeOfDay(condition.start) ?? 0;
+  const end = parseTimeOfDay(condition.end) ?? 0;
+  return start < end
+    ? minuteOfDay >= start && minuteOfDay < end
+    : minuteOfDay >= start || minuteOfDay < end;
+};
+
+/** True when the device and local time satisfy every condition. */
+export const conditionsHold = (
+  conditions: AutomationCondition[],
+  device: DeviceStatus,
+  minuteOfDay: number,
+): boolean =>
+  conditions.every((condition) => {
+    switch (condition.type) {
+      case "temperature":
+        if (device.temperature === null) {
+          return false;
+        }
+        return condition.operator === "above"
+          ? device.temperature > condition.value
+          : device.temperature < condition.value;
+      case "mode": {
+        const mode = findModeName(device.modeId);
+        return mode !== null && condition.modes.includes(mode);
+      }
+      case "time":
+        return isWithinWindow(condition, minuteOfDay);
+      default:
+        return false;
+    }
+  });
+
+/**
+ * Decides whether a rule that already fired may fire again. Temperature
+ * conditions must move back past their threshold by the hysteresis margin;
+ * rules without one re-arm as soon as their conditions stop holding.
+ */
+export const hasCleared = (
+  conditions: AutomationCondition[],
+  device: DeviceStatus,
+  minuteOfDay: number,
+  hysteresis: number,
+): boolean => {
+  const temperatureConditions = conditions.filter(
+    (condition) => condition.type === "temperature",
+  );
+  if (temperatureConditions.length === 0) {
+    return !conditionsHold(conditions, device, minuteOfDay);
+  }
+  const reading = device.temperature;
+  if (reading === null) {
+    return false;
+  }
+  return temperatureConditions.some((condition) =>
+    condition.operator === "above"
+      ? reading <= condition.value - hysteresis
+      : reading >= condition.value + hysteresis,
+  );
+};
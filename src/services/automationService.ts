@@ -0,0 +1,602 @@
+import { randomUUID } from "crypto";
+import type { Logger } from "pino";
+import { FAN_MODES, HVAC_MODES } from "integrations/bgh/client";
+import logger from "../logger";
+import {
+  AutomationRuleError,
+  conditionsHold,
+  hasCleared,
+  normaliseConditions,
+  type AutomationCondition,
+} from "./automationRules";
+import { createAutomationStore, type AutomationStore } from "./automationStore";
+import type { BghCredentials, CredentialResolver } from "./bghService";
+import { enqueueCommand, type CommandPayload } from "./commandQueue";
+import { findUnsupportedSetting } from "./commandValidation";
+import { getCachedDevices, getKnownDevice } from "./deviceCache";
+import { watchHome } from "./devicePoller";
+import { broadcastEvent } from "./eventStream";
+import { localMinuteOfDay } from "./scheduleRules";
+import { getHomeTimezone, type SchedulerClock } from "./scheduleService";
+
+export type AutomationErrorCode = "INVALID_AUTOMATION" | "NOT_FOUND";
+
+export class AutomationError extends Error {
+  constructor(
+    message: string,
+    public readonly code: AutomationErrorCode,
+  ) {
+    super(message);
+    this.name = "AutomationError";
+  }
+}
+
+export type AutomationTriggerOutcome = "queued" | "skipped";
+
+/** One time the rule fired, with the command it queued. */
+export interface AutomationTrigger {
+  triggeredAt: number;
+  outcome: AutomationTriggerOutcome;
+  jobId: string | null;
+  /** Room temperature read when the rule fired. */
+  temperature: number | null;
+  error: string | null;
+}
+
+export interface AutomationRecord {
+  id: string;
+  homeId: number;
+  deviceId: number;
+  name: string | null;
+  enabled: boolean;
+  conditions: AutomationCondition[];
+  action: CommandPayload;
+  /** Degrees the reading must move back past a threshold to re-arm. */
+  hysteresis: number;
+  /** Minimum time between two triggers. */
+  cooldownMs: number;
+  /** False after firing, until the conditions clear again. */
+  armed: boolean;
+  lastTriggeredAt: number | null;
+  createdAt: number;
+  updatedAt: number;
+  /** Most recent triggers first. */
+  history: AutomationTrigger[];
+}
+
+export interface PersistedAutomation extends AutomationRecord {
+  ownerEmail: string;
+}
+
+export interface AutomationChanges {
+  deviceId?: unknown;
+  name?: unknown;
+  enabled?: unknown;
+  conditions?: unknown;
+  action?: unknown;
+  hysteresis?: unknown;
+  cooldownMs?: unknown;
+}
+
+export interface AutomationEngineOptions {
+  resolveCredentials: CredentialResolver;
+  log?: Logger;
+  clock?: SchedulerClock;
+}
+
+const DEFAULT_HYSTERESIS = 1;
+const DEFAULT_COOLDOWN_MS = 1000 * 60 * 15; // 15 minutes
+const TICK_INTERVAL_MS = 15_000;
+const HISTORY_LIMIT = 20;
+
+const systemClock: SchedulerClock = { now: () => Date.now() };
+
+const engineLog = logger.child({ service: "automationEngine" });
+
+let store: AutomationStore = createAutomationStore();
+let automations = new Map<string, PersistedAutomation>();
+
+const loadFromStore = (): void => {
+  automations = new Map(store.load().map((entry) => [entry.id, entry]));
+};
+
+loadFromStore();
+
+export const setAutomationStore = (automationStore: AutomationStore): void => {
+  store = automationStore;
+  loadFromStore();
+};
+
+const toRecord = (automation: PersistedAutomation): AutomationRecord => ({
+  id: automation.id,
+  homeId: automation.homeId,
+  deviceId: automation.deviceId,
+  name: automation.name,
+  enabled: automation.enabled,
+  conditions: automation.conditions.map((condition) => ({ ...condition })),
+  action: { ...automation.action },
+  hysteresis: automation.hysteresis,
+  cooldownMs: automation.cooldownMs,
+  armed: automation.armed,
+  lastTriggeredAt: automation.lastTriggeredAt,
+  createdAt: automation.createdAt,
+  updatedAt: automation.updatedAt,
+  history: automation.history.map((entry) => ({ ...entry })),
+});
+
+const isOwnedBy = (automation: PersistedAutomation, email: string): boolean =>
+  automation.ownerEmail.toLowerCase() === email.toLowerCase();
+
+const parseConditions = (input: unknown): AutomationCondition[] => {
+  try {
+    return normaliseConditions(input);
+  } catch (error) {
+    if (error instanceof AutomationRuleError) {
+      throw new AutomationError(error.message, "INVALID_AUTOMATION");
+    }
+    throw error;
+  }
+};
+
+const parseAction = (input: unknown): CommandPayload => {
+  if (typeof input !== "object" || input === null) {
+    throw new AutomationError(
+      "Field 'action' must be an object.",
+      "INVALID_AUTOMATION",
+    );
+  }
+  const { mode, targetTemperature, fan } = input as Record<string, unknown>;
+  if (typeof mode !== "string" || !(mode in HVAC_MODES)) {
+    throw new AutomationError(
+      `Unsupported mode '${String(mode)}'.`,
+      "INVALID_AUTOMATION",
+    );
+  }
+  if (
+    typeof targetTemperature !== "number" ||
+    !Number.isFinite(targetTemperature)
+  ) {
+    throw new AutomationError(
+      "Action 'targetTemperature' must be a number.",
+      "INVALID_AUTOMATION",
+    );
+  }
+  const action: CommandPayload = { mode, targetTemperature };
+  if (fan !== undefined) {
+    if (typeof fan !== "string" || !(fan in FAN_MODES)) {
+      throw new AutomationError(
+        `Unsupported fan mode '${String(fan)}'.`,
+        "INVALID_AUTOMATION",
+      );
+    }
+    action.fan = fan;
+  }
+  return action;
+};
+
+// A device nobody has read yet cannot be checked here; every trigger checks
+// the action against the reading that fired it anyway.
+const assertSupportedAction = (automation: PersistedAutomation): void => {
+  const device = getKnownDevice(
+    automation.ownerEmail,
+    automation.homeId,
+    automation.deviceId,
+  );
+  const unsupported =
+    device && findUnsupportedSetting(device.capabilities, automation.action);
+  if (unsupported) {
+    throw new AutomationError(unsupported, "INVALID_AUTOMATION");
+  }
+};
+
+const parseDeviceId = (input: unknown): number => {
+  if (typeof input !== "number" || !Number.isInteger(input)) {
+    throw new AutomationError(
+      "Field 'deviceId' must be an integer.",
+      "INVALID_AUTOMATION",
+    );
+  }
+  return input;
+};
+
+const parseName = (input: unknown): string | null => {
+  if (input === undefined || input === null) {
+    return null;
+  }
+  if (typeof input !== "string") {
+    throw new AutomationError(
+      "Field 'name' must be a string.",
+      "INVALID_AUTOMATION",
+    );
+  }
+  const trimmed = input.trim();
+  return trimmed.length > 0 ? trimmed : null;
+};
+
+const parseEnabled = (input: unknown): boolean => {
+  if (typeof input !== "boolean") {
+    throw new AutomationError(
+      "Field 'enabled' must be a boolean.",
+      "INVALID_AUTOMATION",
+    );
+  }
+  return input;
+};
+
+const parseNonNegative = (input: unknown, field: string): number => {
+  if (typeof input !== "number" || !Number.isFinite(input) || input < 0) {
+    throw new AutomationError(
+      `Field '${field}' must be a non-negative number.`,
+      "INVALID_AUTOMATION",
+    );
+  }
+  return input;
+};
+
+const findOwnedAutomation = (
+  ownerEmail: string,
+  homeId: number,
+  automationId: string,
+): PersistedAutomation => {
+  const automation = automations.get(automationId);
+  if (
+    !automation ||
+    automation.homeId !== homeId ||
+    !isOwnedBy(automation, ownerEmail)
+  ) {
+    throw new AutomationError(
+      `Automation '${automationId}' not found.`,
+      "NOT_FOUND",
+    );
+  }
+  return automation;
+};
+
+export const listAutomations = (
+  ownerEmail: string,
+  homeId: number,
+): AutomationRecord[] =>
+  Array.from(automations.values())
+    .filter(
+      (automation) =>
+        automation.homeId === homeId && isOwnedBy(automation, ownerEmail),
+    )
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map(toRecord);
+
+export const getAutomation = (
+  ownerEmail: string,
+  homeId: number,
+  automationId: string,
+): AutomationRecord =>
+  toRecord(findOwnedAutomation(ownerEmail, homeId, automationId));
+
+export const createAutomation = (
+  ownerEmail: string,
+  homeId: number,
+  input: AutomationChanges,
+  now = Date.now(),
+): AutomationRecord => {
+  const automation: PersistedAutomation = {
+    id: randomUUID(),
+    ownerEmail,
+    homeId,
+    deviceId: parseDeviceId(input.deviceId),
+    name: parseName(input.name),
+    enabled: input.enabled === undefined ? true : parseEnabled(input.enabled),
+    conditions: parseConditions(input.conditions),
+    action: parseAction(input.action),
+    hysteresis:
+      input.hysteresis === undefined
+        ? DEFAULT_HYSTERESIS
+        : parseNonNegative(input.hysteresis, "hysteresis"),
+    cooldownMs:
+      input.cooldownMs === undefined
+        ? DEFAULT_COOLDOWN_MS
+        : parseNonNegative(input.cooldownMs, "cooldownMs"),
+    armed: true,
+    lastTriggeredAt: null,
+    createdAt: now,
+    updatedAt: now,
+    history: [],
+  };
+  assertSupportedAction(automation);
+  automations.set(automation.id, automation);
+  store.save(automation);
+  return toRecord(automation);
+};
+
+/** Applies the changes and re-arms the rule, since its conditions may differ. */
+export const updateAutomation = (
+  ownerEmail: string,
+  homeId: number,
+  automationId: string,
+  changes: AutomationChanges,
+  now = Date.now(),
+): AutomationRecord => {
+  const automation = findOwnedAutomation(ownerEmail, homeId, automationId);
+  const updated: PersistedAutomation = {
+    ...automation,
+    deviceId:
+      changes.deviceId === undefined
+        ? automation.deviceId
+        : parseDeviceId(changes.deviceId),
+    name:
+      changes.name === undefined ? automation.name : parseName(changes.name),
+    enabled:
+      changes.enabled === undefined
+        ? automation.enabled
+        : parseEnabled(changes.enabled),
+    conditions:
+      changes.conditions === undefined
+        ? automation.conditions
+        : parseConditions(changes.conditions),
+    action:
+      changes.action === undefined
+        ? automation.action
+        : parseAction(changes.action),
+    hysteresis:
+      changes.hysteresis === undefined
+        ? automation.hysteresis
+        : parseNonNegative(changes.hysteresis, "hysteresis"),
+    cooldownMs:
+      changes.cooldownMs === undefined
+        ? automation.cooldownMs
+        : parseNonNegative(changes.cooldownMs, "cooldownMs"),
+    armed: true,
+    updatedAt: now,
+  };
+  if (changes.deviceId !== undefined || changes.action !== undefined) {
+    assertSupportedAction(updated);
+  }
+  automations.set(updated.id, updated);
+  store.save(updated);
+  return toRecord(updated);
+};
+
+export const deleteAutomation = (
+  ownerEmail: string,
+  homeId: number,
+  automationId: string,
+): void => {
+  findOwnedAutomation(ownerEmail, homeId, automationId);
+  automations.delete(automationId);
+  store.remove(automationId);
+};
+
+const recordTrigger = (
+  automation: PersistedAutomation,
+  trigger: AutomationTrigger,
+): void => {
+  automation.history = [trigger, ...automation.history].slice(0, HISTORY_LIMIT);
+  // Only commands that went out start the cooldown, so a rule skipped for
+  // lack of credentials fires as soon as the owner signs in again.
+  if (trigger.outcome === "queued") {
+    automation.lastTriggeredAt = trigger.triggeredAt;
+  }
+  store.save(automation);
+  broadcastEvent(
+    "automation-triggered",
+    {
+      automationId: automation.id,
+      homeId: automation.homeId,
+      deviceId: automation.deviceId,
+      ...trigger,
+    },
+    { email: automation.ownerEmail, homeId: automation.homeId },
+  );
+};
+
+const evaluateAutomation = (
+  automation: PersistedAutomation,
+  now: number,
+  resolveCredentials: AutomationEngineOptions["resolveCredentials"],
+  log: Logger,
+): AutomationTrigger | null => {
+  const device = getCachedDevices(automation.ownerEmail, automation.homeId, now)
+    ?.devices[automation.deviceId];
+  if (!device) {
+    return null;
+  }
+  const ruleLog = log.child({
+    automationId: automation.id,
+    homeId: automation.homeId,
+    deviceId: automation.deviceId,
+  });
+  const minuteOfDay = localMinuteOfDay(
+    now,
+    getHomeTimezone(automation.ownerEmail, automation.homeId),
+  );
+
+  if (!automation.armed) {
+    if (
+      hasCleared(
+        automation.conditions,
+        device,
+        minuteOfDay,
+        automation.hysteresis,
+      )
+    ) {
+      automation.armed = true;
+      store.save(automation);
+      ruleLog.debug({ temperature: device.temperature }, "Automation re-armed");
+    }
+    return null;
+  }
+
+  if (!conditionsHold(automation.conditions, device, minuteOfDay)) {
+    return null;
+  }
+  if (
+    automation.lastTriggeredAt !== null &&
+    now - automation.lastTriggeredAt < automation.cooldownMs
+  ) {
+    return null;
+  }
+
+  const credentials = resolveCredentials(automation.ownerEmail);
+  if (!credentials) {
+    // Stays armed so it fires once the owner signs in again, but records the
+    // skip at most once per cooldown instead of on every tick.
+    const [latest] = automation.history;
+    if (
+      latest?.outcome === "skipped" &&
+      now - latest.triggeredAt < automation.cooldownMs
+    ) {
+      return null;
+    }
+    ruleLog.warn("No usable credentials for the automation owner");
+    return {
+      triggeredAt: now,
+      outcome: "skipped",
+      jobId: null,
+      temperature: device.temperature,
+      error: "The owner has no active session with valid BGH credentials.",
+    };
+  }
+
+  const unsupported = findUnsupportedSetting(
+    device.capabilities,
+    automation.action,
+  );
+  if (unsupported) {
+    // Disarms like a queued trigger so the skip is recorded once per episode.
+    automation.armed = false;
+    ruleLog.warn({ ...automation.action }, unsupported);
+    return {
+      triggeredAt: now,
+      outcome: "skipped",
+      jobId: null,
+      temperature: device.temperature,
+      error: unsupported,
+    };
+  }
+
+  const { jobId } = enqueueCommand({
+    credentials,
+    homeId: automation.homeId,
+    deviceId: automation.deviceId,
+    payload: { ...automation.action },
+    log: ruleLog,
+    origin: { type: "automation", id: automation.id },
+  });
+  automation.armed = false;
+  ruleLog.info(
+    { jobId, temperature: device.temperature },
+    "Automation triggered",
+  );
+  return {
+    triggeredAt: now,
+    outcome: "queued",
+    jobId,
+    temperature: device.temperature,
+    error: null,
+  };
+};
+
+/**
+ * Evaluates every enabled automation against the cached device state. Homes
+ * without a fresh cache are left alone until the next tick. Returns how many
+ * automations triggered.
+ */
+export const runAutomations = ({
+  resolveCredentials,
+  log,
+  clock = systemClock,
+}: AutomationEngineOptions): number => {
+  const now = clock.now();
+  const tickLog = log ?? engineLog;
+  let triggered = 0;
+  for (const automation of automations.values()) {
+    if (!automation.enabled) {
+      continue;
+    }
+    const trigger = evaluateAutomation(
+      automation,
+      now,
+      resolveCredentials,
+      tickLog,
+    );
+    if (trigger) {
+      recordTrigger(automation, trigger);
+      triggered += 1;
+    }
+  }
+  return triggered;
+};
+
+const buildWatchKey = (email: string, homeId: number): string =>
+  `${email.toLowerCase()}:${homeId}`;
+
+type HomeWatch = { credentials: BghCredentials; unwatch: () => void };
+
+// Polls the homes with enabled automations so their cache stays fresh, and
+// stops once the rules go away or the owner has no usable credentials. A
+// watch is renewed when the owner signs in again with a new password.
+const syncWatches = (
+  watches: Map<string, HomeWatch>,
+  resolveCredentials: AutomationEngineOptions["resolveCredentials"],
+  log: Logger,
+): void => {
+  const wanted = new Map<
+    string,
+    { credentials: BghCredentials; homeId: number }
+  >();
+  for (const automation of automations.values()) {
+    const key = buildWatchKey(automation.ownerEmail, automation.homeId);
+    if (!automation.enabled || wanted.has(key)) {
+      continue;
+    }
+    const credentials = resolveCredentials(automation.ownerEmail);
+    if (credentials) {
+      wanted.set(key, { credentials, homeId: automation.homeId });
+    }
+  }
+
+  for (const [key, watch] of watches.entries()) {
+    if (!wanted.has(key)) {
+      watch.unwatch();
+      watches.delete(key);
+    }
+  }
+  for (const [key, { credentials, homeId }] of wanted.entries()) {
+    const current = watches.get(key);
+    if (current?.credentials.sealedPassword === credentials.sealedPassword) {
+      continue;
+    }
+    // Watch with the new credentials before releasing the old subscription so
+    // the poller keeps its snapshot.
+    watches.set(key, {
+      credentials,
+      unwatch: watchHome(credentials, homeId, log),
+    });
+    current?.unwatch();
+  }
+};
+
+/**
+ * Starts the automation loop. Returns a function that stops it and releases
+ * the homes it was polling.
+ */
+export const startAutomationEngine = (
+  options: AutomationEngineOptions,
+): (() => void) => {
+  const log = options.log ?? engineLog;
+  const watches = new Map<string, HomeWatch>();
+  const timer = setInterval(() => {
+    try {
+      syncWatches(watches, options.resolveCredentials, log);
+      runAutomations(options);
+    } catch (error) {
+      log.error({ err: error }, "Automation tick failed");
+    }
+  }, TICK_INTERVAL_MS);
+  timer.unref();
+  return () => {
+    clearInterval(timer);
+    for (const watch of watches.values()) {
+      watch.unwatch();
+    }
+    watches.clear();
+  };
+};
@@ -0,0 +1,32 @@
+import logger from "../logger";
+import type { PersistedAutomation } from "./automationService";
+import {
+  JsonFileRecordStore,
+  MemoryRecordStore,
+  resolveDataPath,
+  type RecordStore,
+} from "./persistence";
+
+export type AutomationStore = RecordStore<PersistedAutomation>;
+
+const STORE_PATH_ENV_KEY = "AUTOMATION_STORE_PATH";
+
+const storeLog = logger.child({ service: "automationStore" });
+
+export class MemoryAutomationStore extends MemoryRecordStore<PersistedAutomation> {}
+
+/** Keeps the automations in the file named by `AUTOMATION_STORE_PATH`. */
+export class FileAutomationStore extends JsonFileRecordStore<PersistedAutomation> {
+  constructor(filePath: string) {
+    super(filePath, storeLog, "automations");
+  }
+}
+
+export const createAutomationStore = (): AutomationStore => {
+  const filePath = resolveDataPath(STORE_PATH_ENV_KEY);
+  if (!filePath) {
+    return new MemoryAutomationStore();
+  }
+  storeLog.info({ filePath }, "Persisting automations to file");
+  return new FileAutomationStore(filePath);
+};
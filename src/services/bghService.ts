@@ -5,15 +5,27 @@ import {
   BGHAuthenticationError,
   BGHClient,
   type BGHClientOptions,
+  type DeviceChangeSet,
   type DeviceStatus,
   type DeviceStatusMap,
   type HomeSummary,
+  type UpstreamScene,
 } from "integrations/bgh";
+import { acquireClient, evictClient, evictClientsForUser } from "./clientPool";
+import {
+  CredentialVaultError,
+  openCredentials,
+  type SealedCredentials,
+} from "./credentialVault";
+import { getCachedDevices, storeDevices } from "./deviceCache";
+import { rememberActiveStates } from "./deviceMemory";
+import { UpstreamBusyError, acquireUpstreamSlot } from "./upstreamLimiter";
 
 export type BghServiceErrorCode =
   | "CONFIGURATION_ERROR"
   | "AUTHENTICATION_ERROR"
   | "UPSTREAM_ERROR"
+  | "UPSTREAM_BUSY"
   | "NOT_FOUND"
   | "UNEXPECTED_ERROR";
 
@@ -28,9 +40,17 @@ export class BGHServiceError extends Error {
   }
 }
 
-export interface BghCredentials {
-  email: string;
-  password: string;
+export type BghCredentials = SealedCredentials;
+
+/**
+ * Looks up usable credentials for a user outside of a request, e.g. when
+ * background work runs on their behalf. Null when they have no live session.
+ */
+export type CredentialResolver = (email: string) => BghCredentials | null;
+
+export interface DeviceReadOptions {
+  /** Skip the device cache and read the current state from BGH. */
+  fresh?: boolean;
 }
 
 const TIMEOUT_ENV_KEY = "BGH_TIMEOUT_MS";
@@ -51,6 +71,7 @@ export async function listHomes(
     svcLog.info({ homeCount: homes.length }, "Homes retrieved from BGH");
     return homes;
   } catch (error) {
+    discardOnAuthFailure(credentials, error);
     throw normaliseError("listing homes", error, svcLog);
   }
 }
@@ -70,6 +91,7 @@ export async function validateCredentials(
     await client.listHomes();
     svcLog.info("Credentials validated against BGH API");
   } catch (error) {
+    discardOnAuthFailure(credentials, error);
     throw normaliseError("validating credentials", error, svcLog);
   }
 }
@@ -78,6 +100,7 @@ export async function listDevices(
   credentials: BghCredentials,
   homeId: number,
   log?: Logger,
+  options: DeviceReadOptions = {},
 ): Promise<DeviceStatusMap> {
   const svcLog = (log ?? logger).child({
     service: "bghService",
@@ -85,16 +108,26 @@ export async function listDevices(
     homeId,
     userEmail: credentials.email,
   });
+  if (!options.fresh) {
+    const cached = getCachedDevices(credentials.email, homeId);
+    if (cached) {
+      svcLog.debug(
+        { fetchedAt: cached.fetchedAt },
+        "Serving devices from cache",
+      );
+      return cached.devices;
+    }
+  }
   svcLog.debug("Retrieving devices for home");
   try {
-    const client = await createClient(credentials, svcLog);
-    const devices = await client.getDevices(homeId);
+    const devices = await fetchDevices(credentials, homeId, svcLog);
     svcLog.info(
       { deviceCount: Object.keys(devices).length },
       "Devices retrieved from BGH",
     );
     return devices;
   } catch (error) {
+    discardOnAuthFailure(credentials, error);
     throw normaliseError(
       `retrieving devices for home ${homeId}`,
       error,
@@ -103,11 +136,51 @@ export async function listDevices(
   }
 }
 
+/**
+ * Cheap delta query: returns the devices that changed after `since`, a cursor
+ * handed out by a previous call. Without a valid cursor every device is sent.
+ */
+export async function getDeviceChanges(
+  credentials: BghCredentials,
+  homeId: number,
+  since: string | null,
+  log?: Logger,
+): Promise<DeviceChangeSet> {
+  const svcLog = (log ?? logger).child({
+    service: "bghService",
+    operation: "getDeviceChanges",
+    homeId,
+    userEmail: credentials.email,
+  });
+  svcLog.debug({ since }, "Retrieving device changes for home");
+  try {
+    const client = await createClient(credentials, svcLog);
+    const changes = await client.getChangesSince(homeId, since);
+    svcLog.info(
+      {
+        full: changes.full,
+        changedCount: Object.keys(changes.devices).length,
+        removedCount: changes.removed.length,
+      },
+      "Device changes retrieved from BGH",
+    );
+    return changes;
+  } catch (error) {
+    discardOnAuthFailure(credentials, error);
+    throw normaliseError(
+      `retrieving device changes for home ${homeId}`,
+      error,
+      svcLog,
+    );
+  }
+}
+
 export async function getDeviceStatus(
   credentials: BghCredentials,
   homeId: number,
   deviceId: number,
   log?: Logger,
+  options: DeviceReadOptions = {},
 ): Promise<DeviceStatus> {
   const svcLog = (log ?? logger).child({
     service: "bghService",
@@ -116,13 +189,29 @@ export async function getDeviceStatus(
     deviceId,
     userEmail: credentials.email,
   });
+  if (!options.fresh) {
+    const cached = getCachedDevices(credentials.email, homeId)?.devices[
+      deviceId
+    ];
+    if (cached) {
+      svcLog.debug("Serving device status from cache");
+      return cached;
+    }
+  }
   svcLog.debug("Retrieving device status");
   try {
-    const client = await createClient(credentials, svcLog);
-    const device = await client.getDeviceStatus(homeId, deviceId);
+    const devices = await fetchDevices(credentials, homeId, svcLog);
+    const device = devices[deviceId];
+    if (!device) {
+      throw new BGHServiceError(
+        `Device ${deviceId} not found for home ${homeId}`,
+        "NOT_FOUND",
+      );
+    }
     svcLog.info("Device status retrieved from BGH");
     return device;
   } catch (error) {
+    discardOnAuthFailure(credentials, error);
     throw normaliseError(
       `retrieving device ${deviceId} status for home ${homeId}`,
       error,
@@ -131,6 +220,33 @@ export async function getDeviceStatus(
   }
 }
 
+export async function listUpstreamScenes(
+  credentials: BghCredentials,
+  homeId: number,
+  log?: Logger,
+): Promise<UpstreamScene[]> {
+  const svcLog = (log ?? logger).child({
+    service: "bghService",
+    operation: "listUpstreamScenes",
+    homeId,
+    userEmail: credentials.email,
+  });
+  svcLog.debug("Retrieving BGH scenes for home");
+  try {
+    const client = await createClient(credentials, svcLog);
+    const scenes = await client.getScenes(homeId);
+    svcLog.info({ sceneCount: scenes.length }, "BGH scenes retrieved");
+    return scenes;
+  } catch (error) {
+    discardOnAuthFailure(credentials, error);
+    throw normaliseError(
+      `retrieving BGH scenes for home ${homeId}`,
+      error,
+      svcLog,
+    );
+  }
+}
+
 export async function setDeviceMode(
   credentials: BghCredentials,
   deviceId: number,
@@ -154,10 +270,25 @@ export async function setDeviceMode(
     svcLog.info("Device mode updated in BGH");
     return response;
   } catch (error) {
+    discardOnAuthFailure(credentials, error);
     throw normaliseError(`updating mode for device ${deviceId}`, error, svcLog);
   }
 }
 
+// Every read from BGH refreshes the cache, so status polls after a command
+// also keep list/status routes current.
+async function fetchDevices(
+  credentials: BghCredentials,
+  homeId: number,
+  log: Logger,
+): Promise<DeviceStatusMap> {
+  const client = await createClient(credentials, log);
+  const devices = await client.getDevices(homeId);
+  storeDevices(credentials.email, homeId, devices);
+  rememberActiveStates(homeId, devices);
+  return devices;
+}
+
 async function createClient(
   credentials: BghCredentials,
   log?: Logger,
@@ -167,14 +298,63 @@ async function createClient(
     component: "client",
     userEmail: credentials.email,
   });
-  const options: BGHClientOptions = {};
+  const options: BGHClientOptions = { throttle: acquireUpstreamSlot };
   const timeout = parseTimeout(scopedLog);
   if (timeout !== undefined) {
     options.timeoutMs = timeout;
     scopedLog.debug({ timeoutMs: timeout }, "Configured BGH timeout");
   }
-  scopedLog.info("Initialising BGH client");
-  return new BGHClient(credentials.email, credentials.password, options);
+  const { email, password } = openStoredCredentials(credentials);
+  return acquireClient(
+    { email, password },
+    () => {
+      scopedLog.info("Initialising BGH client");
+      return new BGHClient(email, password, options);
+    },
+    scopedLog,
+  );
+}
+
+// Credentials sealed with a key that is no longer configured cannot be used;
+// the user has to authenticate again.
+function openStoredCredentials(credentials: BghCredentials): {
+  email: string;
+  password: string;
+} {
+  try {
+    return openCredentials(credentials);
+  } catch (error) {
+    if (error instanceof CredentialVaultError) {
+      throw new BGHServiceError(
+        "Stored BGH credentials can no longer be decrypted.",
+        "AUTHENTICATION_ERROR",
+        error,
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Drops every pooled client for the user so the next request logs in again.
+ */
+export function releaseClients(email: string, log?: Logger): void {
+  const removed = evictClientsForUser(email);
+  (log ?? logger).debug(
+    { service: "bghService", userEmail: email, removed },
+    "Released pooled BGH clients",
+  );
+}
+
+// A client whose credentials were rejected would keep failing, so it leaves
+// the pool and the next call starts from a fresh login.
+function discardOnAuthFailure(
+  credentials: BghCredentials,
+  error: unknown,
+): void {
+  if (error instanceof BGHAuthenticationError) {
+    evictClient(openCredentials(credentials));
+  }
 }
 
 function parseTimeout(log: Logger): number | undefined {
@@ -211,6 +391,15 @@ function normaliseError(
     log.error({ err: authError, context }, "BGH authentication error");
     return authError;
   }
+  if (error instanceof UpstreamBusyError) {
+    const busyError = new BGHServiceError(
+      `BGH API is busy while ${context}. Try again shortly.`,
+      "UPSTREAM_BUSY",
+      error,
+    );
+    log.warn({ err: busyError, context }, "BGH request queue full");
+    return busyError;
+  }
   if (error instanceof BGHApiError) {
     const apiError = new BGHServiceError(
       `BGH API request failed while ${context}. ${error.message}`,
@@ -0,0 +1,135 @@
+import { createHash } from "crypto";
+import type { Logger } from "pino";
+import type { BGHClient } from "integrations/bgh";
+import logger from "../logger";
+
+export interface PoolCredentials {
+  email: string;
+  password: string;
+}
+
+type PooledClient = {
+  key: string;
+  email: string;
+  client: BGHClient;
+  createdAt: number;
+  lastUsedAt: number;
+};
+
+const IDLE_TTL_ENV_KEY = "BGH_CLIENT_IDLE_TTL_MS";
+const DEFAULT_IDLE_TTL_MS = 1000 * 60 * 15; // 15 minutes
+const SWEEP_INTERVAL_MS = 60_000;
+
+const pool = new Map<string, PooledClient>();
+let sweepTimer: NodeJS.Timeout | null = null;
+
+const poolLog = logger.child({ service: "clientPool" });
+
+const resolveIdleTtl = (): number => {
+  const rawTtl = process.env[IDLE_TTL_ENV_KEY];
+  if (!rawTtl) {
+    return DEFAULT_IDLE_TTL_MS;
+  }
+  const parsed = Number(rawTtl);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    poolLog.warn(
+      { value: rawTtl },
+      "Invalid idle TTL for BGH client pool, using default",
+    );
+    return DEFAULT_IDLE_TTL_MS;
+  }
+  return parsed;
+};
+
+// The password is part of the key so a credential change never reuses a
+// client authenticated with the previous secret.
+const buildKey = ({ email, password }: PoolCredentials): string =>
+  createHash("sha256")
+    .update(email.toLowerCase())
+    .update("\u0000")
+    .update(password)
+    .digest("base64url");
+
+const ensureSweeper = (): void => {
+  if (sweepTimer || pool.size === 0) {
+    return;
+  }
+  sweepTimer = setInterval(() => {
+    purgeIdleClients();
+  }, SWEEP_INTERVAL_MS);
+  sweepTimer.unref();
+};
+
+const stopSweeperIfIdle = (): void => {
+  if (sweepTimer && pool.size === 0) {
+    clearInterval(sweepTimer);
+    sweepTimer = null;
+  }
+};
+
+export const acquireClient = (
+  credentials: PoolCredentials,
+  factory: () => BGHClient,
+  log?: Logger,
+): BGHClient => {
+  const key = buildKey(credentials);
+  const now = Date.now();
+  const existing = pool.get(key);
+  if (existing) {
+    existing.lastUsedAt = now;
+    (log ?? poolLog).debug("Reusing pooled BGH client");
+    return existing.client;
+  }
+
+  const client = factory();
+  pool.set(key, {
+    key,
+    email: credentials.email,
+    client,
+    createdAt: now,
+    lastUsedAt: now,
+  });
+  (log ?? poolLog).debug({ pooledClients: pool.size }, "Pooled new BGH client");
+  ensureSweeper();
+  return client;
+};
+
+export const evictClient = (credentials: PoolCredentials): boolean => {
+  const removed = pool.delete(buildKey(credentials));
+  stopSweeperIfIdle();
+  return removed;
+};
+
+export const evictClientsForUser = (email: string): number => {
+  const normalised = email.toLowerCase();
+  let removed = 0;
+  for (const [key, entry] of pool.entries()) {
+    if (entry.email.toLowerCase() === normalised) {
+      pool.delete(key);
+      removed += 1;
+    }
+  }
+  stopSweeperIfIdle();
+  return removed;
+};
+
+export const purgeIdleClients = (now: number = Date.now()): number => {
+  const idleTtl = resolveIdleTtl();
+  let removed = 0;
+  for (const [key, entry] of pool.entries()) {
+    if (now - entry.lastUsedAt >= idleTtl) {
+      pool.delete(key);
+      removed += 1;
+    }
+  }
+  if (removed > 0) {
+    poolLog.debug(
+      { removed, pooledClients: pool.size },
+      "Evicted idle BGH clients",
+    );
+  }
+  stopSweeperIfIdle();
+  return removed;
+};
+
+export const pooledClients = (): number => pool.size;
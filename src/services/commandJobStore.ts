@@ -0,0 +1,40 @@
+import logger from "../logger";
+import type { CommandJobRecord } from "./commandQueue";
+import {
+  JsonFileRecordStore,
+  MemoryRecordStore,
+  resolveDataPath,
+  type RecordStore,
+} from "./persistence";
+
+/**
+ * What survives a restart: the public job record plus its owner. Credentials
+ * are never persisted; they are resolved again when the job resumes.
+ */
+export interface PersistedCommandJob extends CommandJobRecord {
+  ownerEmail: string;
+}
+
+export type CommandJobStore = RecordStore<PersistedCommandJob>;
+
+const STORE_PATH_ENV_KEY = "COMMAND_QUEUE_STORE_PATH";
+
+const storeLog = logger.child({ service: "commandJobStore" });
+
+export class MemoryCommandJobStore extends MemoryRecordStore<PersistedCommandJob> {}
+
+/** Keeps the jobs in the file named by `COMMAND_QUEUE_STORE_PATH`. */
+export class FileCommandJobStore extends JsonFileRecordStore<PersistedCommandJob> {
+  constructor(filePath: string) {
+    super(filePath, storeLog, "command jobs");
+  }
+}
+
+export const createCommandJobStore = (): CommandJobStore => {
+  const filePath = resolveDataPath(STORE_PATH_ENV_KEY);
+  if (!filePath) {
+    return new MemoryCommandJobStore();
+  }
+  storeLog.info({ filePath }, "Persisting command jobs to file");
+  return new FileCommandJobStore(filePath);
+};
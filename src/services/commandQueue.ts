@@ -2,12 +2,15 @@ import { randomUUID } from "crypto";
 import type { Logger } from "pino";
 import type { DeviceStatus } from "integrations/bgh";
 import { FAN_MODES, HVAC_MODES } from "integrations/bgh/client";
+import logger from "../logger";
 import {
   getDeviceStatus,
   setDeviceMode,
   type BGHServiceError,
   type BghCredentials,
+  type CredentialResolver,
 } from "./bghService";
+import { createCommandJobStore, type CommandJobStore } from "./commandJobStore";
 import { broadcastEvent } from "./eventStream";
 
 export type ModeKey = keyof typeof HVAC_MODES;
@@ -20,19 +23,73 @@ export interface CommandPayload {
   flags?: number;
 }
 
+/** What queued a command on the user's behalf, when it was not a request. */
+export interface CommandOrigin {
+  type: "automation";
+  id: string;
+}
+
 export interface CommandJobInput {
   credentials: BghCredentials;
   homeId: number;
   deviceId: number;
   payload: CommandPayload;
   log: Logger;
+  origin?: CommandOrigin;
+  /**
+   * Set when the setpoint was copied from the device instead of requested,
+   * as partial updates do; merging then keeps the setpoint of a pending job.
+   */
+  temperatureFromDevice?: boolean;
 }
 
-interface CommandJob extends CommandJobInput {
+export type CommandJobState =
+  | "queued"
+  | "sending"
+  | "verifying"
+  | "completed"
+  | "failed"
+  | "superseded"
+  | "interrupted";
+
+/** Public view of a command job, safe to return to its owner. */
+export interface CommandJobRecord {
   id: string;
+  homeId: number;
+  deviceId: number;
+  payload: CommandPayload;
+  state: CommandJobState;
+  attempts: number;
   enqueuedAt: number;
+  startedAt: number | null;
+  updatedAt: number;
+  finishedAt: number | null;
+  device: Record<string, unknown> | null;
+  error: string | null;
+  supersededBy: string | null;
+  origin: CommandOrigin | null;
 }
 
+interface CommandJob extends Omit<CommandJobInput, "credentials" | "origin"> {
+  /** Null for finished jobs restored from the store after a restart. */
+  credentials: BghCredentials | null;
+  ownerEmail: string;
+  id: string;
+  enqueuedAt: number;
+  state: CommandJobState;
+  attempts: number;
+  startedAt: number | null;
+  updatedAt: number;
+  finishedAt: number | null;
+  device: Record<string, unknown> | null;
+  error: string | null;
+  supersededBy: string | null;
+  origin: CommandOrigin | null;
+}
+
+/** Called once for every job that reaches a final state. */
+export type CommandJobListener = (job: CommandJobRecord) => void;
+
 type CommandResult =
   | {
       status: "completed";
@@ -44,9 +101,186 @@ type CommandResult =
 
 const POLL_DELAY_MS = 750;
 const MAX_ATTEMPTS = 6;
+const JOB_RETENTION_ENV_KEY = "COMMAND_JOB_RETENTION_MS";
+const DEFAULT_JOB_RETENTION_MS = 1000 * 60 * 60; // 1 hour
+const CONCURRENCY_ENV_KEY = "COMMAND_QUEUE_CONCURRENCY";
+const DEFAULT_CONCURRENCY = 4;
+const RESUME_MAX_AGE_ENV_KEY = "COMMAND_QUEUE_RESUME_MAX_AGE_MS";
+const DEFAULT_RESUME_MAX_AGE_MS = 1000 * 60 * 10; // 10 minutes
+
+/**
+ * Commands for the same device run in order inside their lane; different
+ * lanes run in parallel up to the global concurrency limit.
+ */
+type Lane = {
+  key: string;
+  jobs: CommandJob[];
+  active: boolean;
+};
+
+const lanes = new Map<string, Lane>();
+const jobs = new Map<string, CommandJob>();
+const lastServedByUser = new Map<string, number>();
+const finishListeners = new Set<CommandJobListener>();
+let activeJobs = 0;
+let serveCounter = 0;
+let jobStore: CommandJobStore = createCommandJobStore();
+
+const FINAL_STATES: ReadonlySet<CommandJobState> = new Set([
+  "completed",
+  "failed",
+  "superseded",
+  "interrupted",
+]);
+
+const resolveJobRetention = (): number => {
+  const parsed = Number(process.env[JOB_RETENTION_ENV_KEY]);
+  return Number.isFinite(parsed) && parsed > 0
+    ? parsed
+    : DEFAULT_JOB_RETENTION_MS;
+};
+
+const toRecord = (job: CommandJob): CommandJobRecord => ({
+  id: job.id,
+  homeId: job.homeId,
+  deviceId: job.deviceId,
+  payload: { ...job.payload },
+  state: job.state,
+  attempts: job.attempts,
+  enqueuedAt: job.enqueuedAt,
+  startedAt: job.startedAt,
+  updatedAt: job.updatedAt,
+  finishedAt: job.finishedAt,
+  device: job.device,
+  error: job.error,
+  supersededBy: job.supersededBy,
+  origin: job.origin ? { ...job.origin } : null,
+});
+
+const persistJob = (job: CommandJob): void => {
+  jobStore.save({ ...toRecord(job), ownerEmail: job.ownerEmail });
+};
+
+const transition = (
+  job: CommandJob,
+  state: CommandJobState,
+  changes: Partial<
+    Pick<CommandJob, "attempts" | "device" | "error" | "supersededBy">
+  > = {},
+): void => {
+  const now = Date.now();
+  Object.assign(job, changes);
+  job.state = state;
+  job.updatedAt = now;
+  if (state === "sending" && job.startedAt === null) {
+    job.startedAt = now;
+  }
+  if (FINAL_STATES.has(state)) {
+    job.finishedAt = now;
+  }
+  persistJob(job);
+  if (FINAL_STATES.has(state)) {
+    notifyFinished(job);
+  }
+};
+
+const notifyFinished = (job: CommandJob): void => {
+  const record = toRecord(job);
+  for (const listener of finishListeners) {
+    try {
+      listener(record);
+    } catch (error) {
+      job.log.error(
+        { err: error, jobId: job.id },
+        "Command job listener failed",
+      );
+    }
+  }
+};
 
-const queue: CommandJob[] = [];
-let isProcessing = false;
+const pruneFinishedJobs = (now: number = Date.now()): void => {
+  const retention = resolveJobRetention();
+  for (const [jobId, job] of jobs.entries()) {
+    if (job.finishedAt !== null && now - job.finishedAt > retention) {
+      jobs.delete(jobId);
+      jobStore.remove(jobId);
+    }
+  }
+};
+
+const isOwnedBy = (job: CommandJob, email: string): boolean =>
+  job.ownerEmail.toLowerCase() === email.toLowerCase();
+
+const resolveConcurrency = (): number => {
+  const parsed = Number(process.env[CONCURRENCY_ENV_KEY]);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : DEFAULT_CONCURRENCY;
+};
+
+const buildLaneKey = (homeId: number, deviceId: number): string =>
+  `${homeId}:${deviceId}`;
+
+// Mode and fan left as `no_change` by the newer command keep the value of the
+// command it replaces. The setpoint has no sentinel, so the newer one wins
+// unless it was only copied from the device.
+const mergePayloads = (
+  older: CommandPayload,
+  newer: CommandPayload,
+  keepOlderTemperature: boolean,
+): CommandPayload => {
+  const merged: CommandPayload = { ...newer };
+  if (keepOlderTemperature) {
+    merged.targetTemperature = older.targetTemperature;
+  }
+  if (newer.mode === "no_change") {
+    merged.mode = older.mode;
+  }
+  if (newer.fan === undefined || newer.fan === "no_change") {
+    if (older.fan !== undefined) {
+      merged.fan = older.fan;
+    }
+  }
+  if (newer.flags === undefined && older.flags !== undefined) {
+    merged.flags = older.flags;
+  }
+  return merged;
+};
+
+/**
+ * Drops the owner's jobs still waiting in the lane and folds their payloads
+ * into the new job, so only the latest desired state is sent to the device.
+ * Jobs queued by other users for the same device are left untouched.
+ */
+const supersedePendingJobs = (lane: Lane, replacement: CommandJob): void => {
+  const pending = lane.jobs.filter((job) =>
+    isOwnedBy(job, replacement.ownerEmail),
+  );
+  lane.jobs = lane.jobs.filter((job) => !pending.includes(job));
+  for (const job of pending) {
+    replacement.payload = mergePayloads(
+      job.payload,
+      replacement.payload,
+      replacement.temperatureFromDevice === true,
+    );
+    replacement.temperatureFromDevice =
+      replacement.temperatureFromDevice === true &&
+      job.temperatureFromDevice === true;
+    transition(job, "superseded", { supersededBy: replacement.id });
+    job.log.info(
+      { jobId: job.id, supersededBy: replacement.id },
+      "Device command superseded",
+    );
+    broadcastEvent(
+      "command-superseded",
+      {
+        jobId: job.id,
+        supersededBy: replacement.id,
+        homeId: job.homeId,
+        deviceId: job.deviceId,
+      },
+      { email: job.ownerEmail, homeId: job.homeId },
+    );
+  }
+};
 
 const matchesExpected = (
   device: DeviceStatus,
@@ -56,10 +290,15 @@ const matchesExpected = (
   const expectedFan =
     payload.fan !== undefined ? FAN_MODES[payload.fan] : undefined;
 
+  // no_change sentinels leave that field as it was, so any value matches.
   const modeMatches =
-    expectedMode === undefined || device.modeId === expectedMode;
+    expectedMode === undefined ||
+    expectedMode === HVAC_MODES.no_change ||
+    device.modeId === expectedMode;
   const fanMatches =
-    expectedFan === undefined || device.fanSpeed === expectedFan;
+    expectedFan === undefined ||
+    expectedFan === FAN_MODES.no_change ||
+    device.fanSpeed === expectedFan;
   const temperatureMatches =
     typeof device.targetTemperature !== "number"
       ? false
@@ -76,18 +315,22 @@ const wait = (ms: number): Promise<void> =>
 
 const pollForStatus = async (
   job: CommandJob,
+  credentials: BghCredentials,
   log: Logger,
 ): Promise<{ device: DeviceStatus; attempts: number }> => {
   let lastDevice: DeviceStatus | null = null;
   for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt += 1) {
     try {
       const device = await getDeviceStatus(
-        job.credentials,
+        credentials,
         job.homeId,
         job.deviceId,
         log,
+        { fresh: true },
       );
       lastDevice = device;
+      job.attempts = attempt;
+      job.updatedAt = Date.now();
       if (matchesExpected(device, job.payload)) {
         return { device, attempts: attempt };
       }
@@ -108,23 +351,36 @@ const pollForStatus = async (
 };
 
 const publishResult = (result: CommandResult): void => {
+  const target = {
+    email: result.job.ownerEmail,
+    homeId: result.job.homeId,
+  };
+
   if (result.status === "completed") {
-    broadcastEvent("device-update", {
-      jobId: result.job.id,
-      homeId: result.job.homeId,
-      deviceId: result.job.deviceId,
-      device: result.device.toJSON(),
-      attempts: result.attempts,
-    });
+    broadcastEvent(
+      "device-update",
+      {
+        jobId: result.job.id,
+        homeId: result.job.homeId,
+        deviceId: result.job.deviceId,
+        device: result.device.toJSON(),
+        attempts: result.attempts,
+      },
+      target,
+    );
     return;
   }
 
-  broadcastEvent("command-error", {
-    jobId: result.job.id,
-    homeId: result.job.homeId,
-    deviceId: result.job.deviceId,
-    message: result.error.message,
-  });
+  broadcastEvent(
+    "command-error",
+    {
+      jobId: result.job.id,
+      homeId: result.job.homeId,
+      deviceId: result.job.deviceId,
+      message: result.error.message,
+    },
+    target,
+  );
 };
 
 const runJob = async (job: CommandJob): Promise<void> => {
@@ -136,14 +392,27 @@ const runJob = async (job: CommandJob): Promise<void> => {
   jobLog.info("Processing queued device command");
 
   try {
-    await setDeviceMode(job.credentials, job.deviceId, job.payload, jobLog);
-    const { device, attempts } = await pollForStatus(job, jobLog);
+    const { credentials } = job;
+    if (!credentials) {
+      throw new Error("No hay credenciales disponibles para enviar el comando");
+    }
+    transition(job, "sending");
+    await setDeviceMode(credentials, job.deviceId, job.payload, jobLog);
+    transition(job, "verifying");
+    const { device, attempts } = await pollForStatus(job, credentials, jobLog);
     jobLog.info({ attempts }, "Device command completed");
+    transition(job, "completed", { attempts, device: device.toJSON() });
     publishResult({ status: "completed", job, device, attempts });
   } catch (error) {
     const failureReason =
       error instanceof Error ? error : (error as BGHServiceError);
     jobLog.error({ err: failureReason }, "Device command failed");
+    transition(job, "failed", {
+      error:
+        failureReason instanceof Error
+          ? failureReason.message
+          : String(failureReason),
+    });
     publishResult({
       status: "failed",
       job,
@@ -156,34 +425,100 @@ const runJob = async (job: CommandJob): Promise<void> => {
   }
 };
 
-const processQueue = async (): Promise<void> => {
-  if (isProcessing) {
+const failCrashedJob = (job: CommandJob, error: unknown): void => {
+  job.log.error({ err: error, jobId: job.id }, "Command job crashed");
+  transition(job, "failed", {
+    error:
+      error instanceof Error
+        ? error.message
+        : "Fallo inesperado al procesar el comando",
+  });
+  publishResult({
+    status: "failed",
+    job,
+    error:
+      error instanceof Error
+        ? error
+        : new Error("Fallo inesperado al procesar el comando"),
+    attempts: 0,
+  });
+};
+
+// Picks the idle lane whose next job belongs to the user served least
+// recently, so one user's backlog cannot starve everybody else.
+const pickNextLane = (): Lane | null => {
+  let selected: Lane | null = null;
+  let selectedRank = Infinity;
+  let selectedEnqueuedAt = Infinity;
+
+  for (const lane of lanes.values()) {
+    const head = lane.jobs[0];
+    if (lane.active || !head) {
+      continue;
+    }
+    const owner = head.ownerEmail.toLowerCase();
+    const rank = lastServedByUser.get(owner) ?? 0;
+    if (
+      rank < selectedRank ||
+      (rank === selectedRank && head.enqueuedAt < selectedEnqueuedAt)
+    ) {
+      selected = lane;
+      selectedRank = rank;
+      selectedEnqueuedAt = head.enqueuedAt;
+    }
+  }
+
+  return selected;
+};
+
+const runLane = async (lane: Lane): Promise<void> => {
+  const job = lane.jobs.shift();
+  if (!job) {
     return;
   }
-  isProcessing = true;
+  serveCounter += 1;
+  lastServedByUser.set(job.ownerEmail.toLowerCase(), serveCounter);
 
-  while (queue.length > 0) {
-    const job = queue.shift();
-    if (!job) {
-      break;
-    }
-    try {
-      await runJob(job);
-    } catch (error) {
-      job.log.error({ err: error, jobId: job.id }, "Command job crashed");
-      publishResult({
-        status: "failed",
-        job,
-        error:
-          error instanceof Error
-            ? error
-            : new Error("Fallo inesperado al procesar el comando"),
-        attempts: 0,
-      });
+  try {
+    await runJob(job);
+  } catch (error) {
+    failCrashedJob(job, error);
+  }
+};
+
+const drainLanes = (): void => {
+  const concurrency = resolveConcurrency();
+  while (activeJobs < concurrency) {
+    const lane = pickNextLane();
+    if (!lane) {
+      return;
     }
+    lane.active = true;
+    activeJobs += 1;
+    void runLane(lane).finally(() => {
+      lane.active = false;
+      activeJobs -= 1;
+      if (lane.jobs.length === 0) {
+        lanes.delete(lane.key);
+      }
+      drainLanes();
+    });
   }
+};
 
-  isProcessing = false;
+const queueJob = (job: CommandJob): number => {
+  jobs.set(job.id, job);
+
+  const laneKey = buildLaneKey(job.homeId, job.deviceId);
+  let lane = lanes.get(laneKey);
+  if (!lane) {
+    lane = { key: laneKey, jobs: [], active: false };
+    lanes.set(laneKey, lane);
+  }
+  supersedePendingJobs(lane, job);
+  lane.jobs.push(job);
+  persistJob(job);
+  return lane.jobs.length;
 };
 
 export const enqueueCommand = ({
@@ -192,26 +527,216 @@ export const enqueueCommand = ({
   deviceId,
   payload,
   log,
+  origin,
+  temperatureFromDevice,
 }: CommandJobInput): { jobId: string; position: number } => {
+  const now = Date.now();
   const job: CommandJob = {
     id: randomUUID(),
     credentials,
+    ownerEmail: credentials.email,
     homeId,
     deviceId,
     payload,
     log,
-    enqueuedAt: Date.now(),
+    enqueuedAt: now,
+    state: "queued",
+    attempts: 0,
+    startedAt: null,
+    updatedAt: now,
+    finishedAt: null,
+    device: null,
+    error: null,
+    supersededBy: null,
+    origin: origin ?? null,
+    temperatureFromDevice,
   };
 
-  queue.push(job);
+  pruneFinishedJobs(now);
+  const position = queueJob(job);
+
   log.info(
-    { jobId: job.id, queueDepth: queue.length },
+    { jobId: job.id, laneDepth: position, activeJobs, lanes: lanes.size },
     "Queued device command",
   );
-  void processQueue();
+  drainLanes();
 
   return {
     jobId: job.id,
-    position: queue.length,
+    position,
   };
 };
+
+export interface RestoreCommandQueueOptions {
+  resolveCredentials: CredentialResolver;
+  log?: Logger;
+}
+
+const resolveResumeMaxAge = (): number => {
+  const parsed = Number(process.env[RESUME_MAX_AGE_ENV_KEY]);
+  return Number.isFinite(parsed) && parsed >= 0
+    ? parsed
+    : DEFAULT_RESUME_MAX_AGE_MS;
+};
+
+const interruptJob = (job: CommandJob, reason: string): void => {
+  transition(job, "interrupted", { error: reason });
+  job.log.warn({ jobId: job.id, reason }, "Device command interrupted");
+  broadcastEvent(
+    "command-error",
+    {
+      jobId: job.id,
+      homeId: job.homeId,
+      deviceId: job.deviceId,
+      state: job.state,
+      message: reason,
+    },
+    { email: job.ownerEmail, homeId: job.homeId },
+  );
+};
+
+/**
+ * Reloads the jobs persisted by a previous process. Unfinished jobs are sent
+ * again when they are recent and their owner still has credentials; the rest
+ * are marked as interrupted. HVACSetModes sets an absolute state, so resending
+ * a job that was mid-flight is safe.
+ */
+export const restoreCommandQueue = ({
+  resolveCredentials,
+  log,
+}: RestoreCommandQueueOptions): { resumed: number; interrupted: number } => {
+  const restoreLog = (log ?? logger).child({
+    service: "commandQueue",
+    phase: "restore",
+  });
+  const now = Date.now();
+  const maxAge = resolveResumeMaxAge();
+  const persisted = jobStore
+    .load()
+    .filter((record) => !jobs.has(record.id))
+    .sort((a, b) => a.enqueuedAt - b.enqueuedAt);
+
+  let resumed = 0;
+  let interrupted = 0;
+
+  for (const record of persisted) {
+    const { ownerEmail, ...fields } = record;
+    const job: CommandJob = {
+      ...fields,
+      payload: { ...record.payload },
+      // Jobs persisted before origins were recorded have none.
+      origin: record.origin ?? null,
+      ownerEmail,
+      credentials: null,
+      log: restoreLog.child({ jobId: record.id }),
+    };
+
+    if (FINAL_STATES.has(job.state)) {
+      jobs.set(job.id, job);
+      continue;
+    }
+
+    jobs.set(job.id, job);
+    if (now - job.enqueuedAt > maxAge) {
+      interruptJob(
+        job,
+        "El comando expiró mientras el servidor estaba detenido",
+      );
+      interrupted += 1;
+      continue;
+    }
+
+    const credentials = resolveCredentials(ownerEmail);
+    if (!credentials) {
+      interruptJob(
+        job,
+        "El comando se interrumpió por un reinicio del servidor",
+      );
+      interrupted += 1;
+      continue;
+    }
+
+    job.credentials = credentials;
+    job.state = "queued";
+    queueJob(job);
+    resumed += 1;
+  }
+
+  pruneFinishedJobs(now);
+  restoreLog.info(
+    { restored: persisted.length, resumed, interrupted },
+    "Command queue restored",
+  );
+  drainLanes();
+  return { resumed, interrupted };
+};
+
+/**
+ * Registers a listener for jobs reaching a final state, so features built on
+ * top of single commands can follow them. Returns a function that removes it.
+ */
+export const onCommandJobFinished = (
+  listener: CommandJobListener,
+): (() => void) => {
+  finishListeners.add(listener);
+  return () => {
+    finishListeners.delete(listener);
+  };
+};
+
+/** Swaps the persistence backend; jobs already in memory are not migrated. */
+export const setCommandJobStore = (store: CommandJobStore): void => {
+  jobStore = store;
+};
+
+/**
+ * Returns the job when it belongs to the given user. Jobs owned by someone
+ * else are reported as missing so their IDs cannot be probed.
+ */
+export const getCommandJob = (
+  jobId: string,
+  ownerEmail: string,
+): CommandJobRecord | null => {
+  const job = jobs.get(jobId);
+  if (!job || !isOwnedBy(job, ownerEmail)) {
+    return null;
+  }
+  return toRecord(job);
+};
+
+/**
+ * Payload of the newest job the user still has queued or in flight for the
+ * device, i.e. the state the device is about to be in, or null when none.
+ */
+export const getPendingPayload = (
+  ownerEmail: string,
+  homeId: number,
+  deviceId: number,
+): CommandPayload | null => {
+  let latest: CommandJob | null = null;
+  for (const job of jobs.values()) {
+    if (
+      job.homeId === homeId &&
+      job.deviceId === deviceId &&
+      !FINAL_STATES.has(job.state) &&
+      isOwnedBy(job, ownerEmail) &&
+      (!latest || job.enqueuedAt >= latest.enqueuedAt)
+    ) {
+      latest = job;
+    }
+  }
+  return latest ? { ...latest.payload } : null;
+};
+
+export const listCommandJobs = (
+  ownerEmail: string,
+  filters: { deviceId?: number } = {},
+): CommandJobRecord[] =>
+  Array.from(jobs.values())
+    .filter(
+      (job) =>
+        isOwnedBy(job, ownerEmail) &&
+        (filters.deviceId === undefined || job.deviceId === filters.deviceId),
+    )
+    .sort((a, b) => b.enqueuedAt - a.enqueuedAt)
+    .map(toRecord);
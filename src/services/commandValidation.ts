@@ -0,0 +1,49 @@
+import type { DeviceCapabilities } from "integrations/bgh/client";
+import type { CommandPayload } from "./commandQueue";
+
+const STEP_TOLERANCE = 1e-6;
+
+/**
+ * Checks a command against what the unit advertises. Returns a message
+ * describing the first unsupported setting, or null when it is acceptable.
+ * Settings the unit does not report are not checked.
+ */
+export const findUnsupportedSetting = (
+  capabilities: DeviceCapabilities,
+  payload: CommandPayload,
+): string | null => {
+  if (
+    payload.mode !== "no_change" &&
+    capabilities.modes !== null &&
+    !capabilities.modes.includes(payload.mode)
+  ) {
+    return `Mode '${payload.mode}' is not supported by this device.`;
+  }
+  if (
+    payload.fan !== undefined &&
+    payload.fan !== "no_change" &&
+    capabilities.fanSpeeds !== null &&
+    !capabilities.fanSpeeds.includes(payload.fan)
+  ) {
+    return `Fan mode '${payload.fan}' is not supported by this device.`;
+  }
+  // The setpoint is ignored while the unit is off.
+  if (payload.mode === "off") {
+    return null;
+  }
+  const { min, max, step } = capabilities.temperature;
+  const { targetTemperature } = payload;
+  if (min !== null && targetTemperature < min) {
+    return `Target temperature must be at least ${min}.`;
+  }
+  if (max !== null && targetTemperature > max) {
+    return `Target temperature must be at most ${max}.`;
+  }
+  if (step !== null) {
+    const offset = (targetTemperature - (min ?? 0)) / step;
+    if (Math.abs(offset - Math.round(offset)) > STEP_TOLERANCE) {
+      return `Target temperature must change in steps of ${step}.`;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,99 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from "crypto";
+import logger from "../logger";
+
+/**
+ * BGH credentials as carried through the app: the password is only ever kept
+ * encrypted with the server-side key and is opened right before logging in.
+ */
+export interface SealedCredentials {
+  email: string;
+  sealedPassword: string;
+}
+
+const ENCRYPTION_KEY_ENV_KEY = "SESSION_ENCRYPTION_KEY";
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+const FORMAT_VERSION = "v1";
+
+export class CredentialVaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CredentialVaultError";
+  }
+}
+
+let encryptionKey: Buffer | null = null;
+
+const resolveKey = (): Buffer => {
+  if (encryptionKey) {
+    return encryptionKey;
+  }
+  const rawKey = process.env[ENCRYPTION_KEY_ENV_KEY];
+  if (rawKey && rawKey.length > 0) {
+    encryptionKey = createHash("sha256").update(rawKey).digest();
+  } else {
+    // Without a configured key nothing sealed survives a restart.
+    logger.warn(
+      { service: "credentialVault" },
+      `${ENCRYPTION_KEY_ENV_KEY} is not set, using an ephemeral key`,
+    );
+    encryptionKey = randomBytes(32);
+  }
+  return encryptionKey;
+};
+
+export const sealSecret = (plaintext: string): string => {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, resolveKey(), iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, "utf8"),
+    cipher.final(),
+  ]);
+  const tag = cipher.getAuthTag();
+  return [FORMAT_VERSION, iv, tag, ciphertext]
+    .map((part) =>
+      typeof part === "string" ? part : part.toString("base64url"),
+    )
+    .join(".");
+};
+
+export const openSecret = (sealed: string): string => {
+  const [version, rawIv, rawTag, rawCiphertext] = sealed.split(".");
+  if (version !== FORMAT_VERSION || !rawIv || !rawTag || !rawCiphertext) {
+    throw new CredentialVaultError("Unsupported sealed secret format");
+  }
+  try {
+    const decipher = createDecipheriv(
+      ALGORITHM,
+      resolveKey(),
+      Buffer.from(rawIv, "base64url"),
+    );
+    decipher.setAuthTag(Buffer.from(rawTag, "base64url"));
+    return Buffer.concat([
+      decipher.update(Buffer.from(rawCiphertext, "base64url")),
+      decipher.final(),
+    ]).toString("utf8");
+  } catch {
+    throw new CredentialVaultError("Unable to open sealed secret");
+  }
+};
+
+export const sealCredentials = (
+  email: string,
+  password: string,
+): SealedCredentials => ({
+  email,
+  sealedPassword: sealSecret(password),
+});
+
+export const openCredentials = (
+  credentials: SealedCredentials,
+): { email: string; password: string } => ({
+  email: credentials.email,
+  password: openSecret(credentials.sealedPassword),
+});
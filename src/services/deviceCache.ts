@@ -0,0 +1,97 @@
+import type { DeviceStatus, DeviceStatusMap } from "integrations/bgh";
+import logger from "../logger";
+
+type CachedHome = {
+  devices: DeviceStatusMap;
+  fetchedAt: number;
+};
+
+const MAX_STALENESS_ENV_KEY = "BGH_CACHE_MAX_STALENESS_MS";
+const DEFAULT_MAX_STALENESS_MS = 10_000;
+
+const homes = new Map<string, CachedHome>();
+
+const cacheLog = logger.child({ service: "deviceCache" });
+
+const buildKey = (email: string, homeId: number): string =>
+  `${email.toLowerCase()}:${homeId}`;
+
+export const resolveMaxStaleness = (): number => {
+  const rawValue = process.env[MAX_STALENESS_ENV_KEY];
+  if (!rawValue) {
+    return DEFAULT_MAX_STALENESS_MS;
+  }
+  const parsed = Number(rawValue);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    cacheLog.warn(
+      { value: rawValue },
+      "Invalid max staleness for device cache, using default",
+    );
+    return DEFAULT_MAX_STALENESS_MS;
+  }
+  return parsed;
+};
+
+/**
+ * Returns the cached devices for the home when they are younger than the
+ * configured max staleness, or null when the caller must hit BGH.
+ */
+export const getCachedDevices = (
+  email: string,
+  homeId: number,
+  now: number = Date.now(),
+): CachedHome | null => {
+  const entry = homes.get(buildKey(email, homeId));
+  if (!entry) {
+    return null;
+  }
+  if (now - entry.fetchedAt > resolveMaxStaleness()) {
+    return null;
+  }
+  return entry;
+};
+
+export const storeDevices = (
+  email: string,
+  homeId: number,
+  devices: DeviceStatusMap,
+  fetchedAt: number = Date.now(),
+): void => {
+  homes.set(buildKey(email, homeId), {
+    devices: { ...devices },
+    fetchedAt,
+  });
+};
+
+export const getCachedDevice = (
+  email: string,
+  homeId: number,
+  deviceId: number,
+): DeviceStatus | null => {
+  const entry = getCachedDevices(email, homeId);
+  return entry?.devices[deviceId] ?? null;
+};
+
+/**
+ * Returns the last reading of the device however old it is, for checks that
+ * only need what the unit supports rather than its current state.
+ */
+export const getKnownDevice = (
+  email: string,
+  homeId: number,
+  deviceId: number,
+): DeviceStatus | null =>
+  homes.get(buildKey(email, homeId))?.devices[deviceId] ?? null;
+
+export const clearCachedDevices = (email: string, homeId?: number): void => {
+  if (homeId !== undefined) {
+    homes.delete(buildKey(email, homeId));
+    return;
+  }
+  const prefix = `${email.toLowerCase()}:`;
+  for (const key of homes.keys()) {
+    if (key.startsWith(prefix)) {
+      homes.delete(key);
+    }
+  }
+};
@@ -0,0 +1,111 @@
+import type { DeviceStatusMap } from "integrations/bgh";
+import { FAN_MODES, HVAC_MODES } from "integrations/bgh/client";
+import logger from "../logger";
+import { readJsonFile, resolveDataPath, writeJsonFile } from "./persistence";
+
+/**
+ * Last state each device was seen running in while switched on, so powering
+ * it back on can restore that mode and setpoint. Fed from every device read,
+ * which also picks up changes made with the physical remote. Kept in the
+ * file named by `DEVICE_MEMORY_STORE_PATH` when set, so a unit that is off
+ * across a restart still turns back on the way it was.
+ */
+export interface RememberedState {
+  mode: string;
+  targetTemperature: number;
+  fan: string | null;
+  seenAt: number;
+}
+
+const STORE_PATH_ENV_KEY = "DEVICE_MEMORY_STORE_PATH";
+
+const memoryLog = logger.child({ service: "deviceMemory" });
+
+const filePath = resolveDataPath(STORE_PATH_ENV_KEY);
+
+const loadStates = (): Map<string, RememberedState> => {
+  if (!filePath) {
+    return new Map();
+  }
+  try {
+    return new Map(
+      Object.entries(
+        readJsonFile<Record<string, RememberedState>>(filePath, {}),
+      ),
+    );
+  } catch (error) {
+    memoryLog.error(
+      { err: error, filePath },
+      "Failed to load remembered device states",
+    );
+    return new Map();
+  }
+};
+
+const states = loadStates();
+
+const persistStates = (): void => {
+  if (!filePath) {
+    return;
+  }
+  try {
+    writeJsonFile(filePath, Object.fromEntries(states));
+  } catch (error) {
+    memoryLog.error(
+      { err: error, filePath },
+      "Failed to persist remembered device states",
+    );
+  }
+};
+
+const buildKey = (homeId: number, deviceId: number): string =>
+  `${homeId}:${deviceId}`;
+
+const findName = (
+  table: Record<string, number>,
+  id: number | null,
+): string | null => {
+  if (id === null) {
+    return null;
+  }
+  const entry = Object.entries(table).find(
+    ([name, value]) => value === id && name !== "no_change",
+  );
+  return entry ? entry[0] : null;
+};
+
+export const rememberActiveStates = (
+  homeId: number,
+  devices: DeviceStatusMap,
+  now = Date.now(),
+): void => {
+  let changed = false;
+  for (const device of Object.values(devices)) {
+    const mode = findName(HVAC_MODES, device.modeId);
+    if (!mode || mode === "off" || device.targetTemperature === null) {
+      continue;
+    }
+    const key = buildKey(homeId, device.deviceId);
+    const previous = states.get(key);
+    const fan = findName(FAN_MODES, device.fanSpeed);
+    changed ||=
+      previous?.mode !== mode ||
+      previous.targetTemperature !== device.targetTemperature ||
+      previous.fan !== fan;
+    states.set(key, {
+      mode,
+      targetTemperature: device.targetTemperature,
+      fan,
+      seenAt: now,
+    });
+  }
+  // Only a new state is worth a write; polls mostly see the same one.
+  if (changed) {
+    persistStates();
+  }
+};
+
+export const getRememberedState = (
+  homeId: number,
+  deviceId: number,
+): RememberedState | null => states.get(buildKey(homeId, deviceId)) ?? null;
@@ -0,0 +1,166 @@
+import type { Logger } from "pino";
+import type { DeviceStatusMap } from "integrations/bgh";
+import logger from "../logger";
+import {
+  BGHServiceError,
+  listDevices,
+  type BghCredentials,
+} from "./bghService";
+import { publishDeviceChanges } from "./deviceWatcher";
+
+type PolledHome = {
+  key: string;
+  homeId: number;
+  credentials: BghCredentials;
+  subscribers: number;
+  timer: NodeJS.Timeout | null;
+  inFlight: boolean;
+  /** Set once BGH rejects the credentials; no further polls are made. */
+  stopped: boolean;
+  snapshot: DeviceStatusMap | null;
+  log: Logger;
+};
+
+const POLL_INTERVAL_ENV_KEY = "BGH_POLL_INTERVAL_MS";
+const DEFAULT_POLL_INTERVAL_MS = 5_000;
+
+const polledHomes = new Map<string, PolledHome>();
+
+const pollerLog = logger.child({ service: "devicePoller" });
+
+const buildKey = (email: string, homeId: number): string =>
+  `${email.toLowerCase()}:${homeId}`;
+
+const resolvePollInterval = (): number => {
+  const rawValue = process.env[POLL_INTERVAL_ENV_KEY];
+  if (!rawValue) {
+    return DEFAULT_POLL_INTERVAL_MS;
+  }
+  const parsed = Number(rawValue);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    pollerLog.warn(
+      { value: rawValue },
+      "Invalid poll interval for device poller, using default",
+    );
+    return DEFAULT_POLL_INTERVAL_MS;
+  }
+  return parsed;
+};
+
+const stopPolling = (home: PolledHome): void => {
+  if (home.timer) {
+    clearTimeout(home.timer);
+    home.timer = null;
+  }
+  if (polledHomes.get(home.key) === home) {
+    polledHomes.delete(home.key);
+  }
+};
+
+const scheduleNext = (home: PolledHome): void => {
+  if (home.subscribers === 0 || home.stopped) {
+    return;
+  }
+  home.timer = setTimeout(() => {
+    void pollHome(home);
+  }, resolvePollInterval());
+  home.timer.unref();
+};
+
+const pollHome = async (home: PolledHome): Promise<void> => {
+  home.timer = null;
+  if (home.inFlight || home.subscribers === 0 || home.stopped) {
+    return;
+  }
+  home.inFlight = true;
+  try {
+    const devices = await listDevices(home.credentials, home.homeId, home.log, {
+      fresh: true,
+    });
+    // The poller keeps its own snapshot so changes noticed by other reads of
+    // the cache (routes, command verification) are still reported here.
+    if (home.snapshot) {
+      publishDeviceChanges(
+        home.credentials.email,
+        home.homeId,
+        home.snapshot,
+        devices,
+        home.log,
+      );
+    }
+    home.snapshot = devices;
+  } catch (error) {
+    if (
+      error instanceof BGHServiceError &&
+      error.code === "AUTHENTICATION_ERROR"
+    ) {
+      // Retrying a rejected password would only lock the account. The next
+      // watch with fresh credentials starts polling again.
+      home.stopped = true;
+      stopPolling(home);
+      home.log.warn({ err: error }, "Stopped polling home, BGH login failed");
+      return;
+    }
+    home.log.warn({ err: error }, "Background device poll failed");
+  } finally {
+    home.inFlight = false;
+    scheduleNext(home);
+  }
+};
+
+/**
+ * Keeps the device cache for the home warm while at least one subscriber is
+ * watching it. Returns a function that releases the subscription.
+ */
+export const watchHome = (
+  credentials: BghCredentials,
+  homeId: number,
+  log?: Logger,
+): (() => void) => {
+  const key = buildKey(credentials.email, homeId);
+  let home = polledHomes.get(key);
+
+  if (home) {
+    home.subscribers += 1;
+    home.credentials = credentials;
+  } else {
+    home = {
+      key,
+      homeId,
+      credentials,
+      subscribers: 1,
+      timer: null,
+      inFlight: false,
+      stopped: false,
+      snapshot: null,
+      log: (log ?? pollerLog).child({
+        service: "devicePoller",
+        homeId,
+        userEmail: credentials.email,
+      }),
+    };
+    polledHomes.set(key, home);
+    home.log.info("Started polling home");
+    void pollHome(home);
+  }
+
+  const watched = home;
+  let released = false;
+  return () => {
+    if (released) {
+      return;
+    }
+    released = true;
+    watched.subscribers -= 1;
+    if (watched.subscribers > 0) {
+      return;
+    }
+    if (watched.stopped) {
+      return;
+    }
+    stopPolling(watched);
+    watched.log.info("Stopped polling home");
+  };
+};
+
+export const polledHomeCount = (): number => polledHomes.size;
@@ -0,0 +1,85 @@
+import type { Logger } from "pino";
+import type { DeviceStatus, DeviceStatusMap } from "integrations/bgh";
+import { broadcastEvent } from "./eventStream";
+
+export const WATCHED_FIELDS = [
+  "temperature",
+  "targetTemperature",
+  "fanSpeed",
+  "modeId",
+] as const;
+
+export type WatchedField = (typeof WATCHED_FIELDS)[number];
+
+export interface DeviceChange {
+  deviceId: number;
+  device: DeviceStatus;
+  changes: WatchedField[];
+  previous: Partial<Record<WatchedField, number | null>>;
+}
+
+/**
+ * Compares two snapshots of the same home and lists the devices whose watched
+ * fields differ. Devices absent from the previous snapshot are not reported,
+ * so the first snapshot of a home never produces events.
+ */
+export const diffDeviceSnapshots = (
+  previous: DeviceStatusMap,
+  current: DeviceStatusMap,
+): DeviceChange[] => {
+  const changes: DeviceChange[] = [];
+
+  for (const device of Object.values(current)) {
+    const before = previous[device.deviceId];
+    if (!before) {
+      continue;
+    }
+
+    const changedFields = WATCHED_FIELDS.filter(
+      (field) => before[field] !== device[field],
+    );
+    if (changedFields.length === 0) {
+      continue;
+    }
+
+    changes.push({
+      deviceId: device.deviceId,
+      device,
+      changes: changedFields,
+      previous: Object.fromEntries(
+        changedFields.map((field) => [field, before[field]]),
+      ),
+    });
+  }
+
+  return changes;
+};
+
+export const publishDeviceChanges = (
+  email: string,
+  homeId: number,
+  previous: DeviceStatusMap,
+  current: DeviceStatusMap,
+  log: Logger,
+): number => {
+  const changes = diffDeviceSnapshots(previous, current);
+  for (const change of changes) {
+    log.info(
+      { deviceId: change.deviceId, changes: change.changes },
+      "Detected device change",
+    );
+    broadcastEvent(
+      "device-update",
+      {
+        homeId,
+        deviceId: change.deviceId,
+        device: change.device.toJSON(),
+        changes: change.changes,
+        previous: change.previous,
+        source: "watcher",
+      },
+      { email, homeId },
+    );
+  }
+  return changes.length;
+};
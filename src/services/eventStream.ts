@@ -4,14 +4,56 @@ import type { Logger } from "pino";
 
 type SSEClient = {
   id: string;
+  email: string;
+  homeId: number | null;
   res: Response;
   log: Logger;
   heartbeat: NodeJS.Timeout;
 };
 
+export interface ClientScope {
+  /** Authenticated session email that owns the stream. */
+  email: string;
+  /** Restrict the stream to a single home; null receives every home. */
+  homeId: number | null;
+}
+
+export interface EventTarget {
+  email: string;
+  homeId?: number;
+}
+
+type BufferedEvent = {
+  id: number;
+  event: string;
+  data: string;
+  homeId?: number;
+};
+
+type ReplayBuffer = {
+  events: BufferedEvent[];
+  /** Highest event ID that no longer fits in the buffer. */
+  evictedUpTo: number;
+};
+
 const HEARTBEAT_INTERVAL_MS = 25_000;
+const RETRY_INTERVAL_MS = 5_000;
+const REPLAY_BUFFER_ENV_KEY = "SSE_REPLAY_BUFFER_SIZE";
+const DEFAULT_REPLAY_BUFFER_SIZE = 100;
 
 const clients = new Map<string, SSEClient>();
+const replayBuffers = new Map<string, ReplayBuffer>();
+
+// Seeded with the boot time so IDs keep growing across restarts and a stale
+// Last-Event-ID from a previous process never hides newer events.
+let lastEventId = Date.now();
+
+const resolveReplayBufferSize = (): number => {
+  const parsed = Number(process.env[REPLAY_BUFFER_ENV_KEY]);
+  return Number.isInteger(parsed) && parsed >= 0
+    ? parsed
+    : DEFAULT_REPLAY_BUFFER_SIZE;
+};
 
 const removeClient = (clientId: string): void => {
   const client = clients.get(clientId);
@@ -28,20 +70,99 @@ const removeClient = (clientId: string): void => {
   client.log.info({ clientId }, "SSE client disconnected");
 };
 
+const normaliseEmail = (email: string): string => email.trim().toLowerCase();
+
+const canReceive = (client: SSEClient, target: EventTarget): boolean => {
+  if (client.email !== normaliseEmail(target.email)) {
+    return false;
+  }
+  if (client.homeId === null || target.homeId === undefined) {
+    return true;
+  }
+  return client.homeId === target.homeId;
+};
+
+const writeEvent = (client: SSEClient, buffered: BufferedEvent): void => {
+  client.res.write(`id: ${buffered.id}\n`);
+  client.res.write(`event: ${buffered.event}\n`);
+  client.res.write(`data: ${buffered.data}\n\n`);
+};
+
+const rememberEvent = (email: string, buffered: BufferedEvent): void => {
+  const capacity = resolveReplayBufferSize();
+  let buffer = replayBuffers.get(email);
+  if (!buffer) {
+    buffer = { events: [], evictedUpTo: 0 };
+    replayBuffers.set(email, buffer);
+  }
+  buffer.events.push(buffered);
+  while (buffer.events.length > capacity) {
+    const evicted = buffer.events.shift();
+    if (evicted) {
+      buffer.evictedUpTo = evicted.id;
+    }
+  }
+};
+
+const parseLastEventId = (req: Request): number | null => {
+  const header = req.headers?.["last-event-id"];
+  const queryValue = req.query?.lastEventId;
+  const rawValue =
+    (Array.isArray(header) ? header[0] : header) ??
+    (Array.isArray(queryValue) ? queryValue[0] : queryValue);
+  if (typeof rawValue !== "string" || rawValue.length === 0) {
+    return null;
+  }
+  const parsed = Number(rawValue);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : null;
+};
+
+/**
+ * Sends the buffered events the client missed since `lastId`. When the gap is
+ * older than the buffer a `resync` event tells the client to refetch state.
+ */
+const replayMissedEvents = (client: SSEClient, lastId: number): number => {
+  const buffer = replayBuffers.get(client.email);
+  if (!buffer) {
+    return 0;
+  }
+  if (lastId < buffer.evictedUpTo) {
+    client.res.write(`event: resync\n`);
+    client.res.write(
+      `data: ${JSON.stringify({ reason: "replay-buffer-exceeded" })}\n\n`,
+    );
+  }
+  let replayed = 0;
+  for (const buffered of buffer.events) {
+    if (
+      buffered.id > lastId &&
+      canReceive(client, { email: client.email, homeId: buffered.homeId })
+    ) {
+      writeEvent(client, buffered);
+      replayed += 1;
+    }
+  }
+  return replayed;
+};
+
 export const registerClient = (
   req: Request,
   res: Response,
   log: Logger,
+  scope: ClientScope,
 ): void => {
   const clientId = randomUUID();
   res.setHeader("Content-Type", "text/event-stream");
   res.setHeader("Cache-Control", "no-cache");
   res.setHeader("Connection", "keep-alive");
   res.flushHeaders?.();
+  res.write(`retry: ${RETRY_INTERVAL_MS}\n`);
   res.write(": connected\n\n");
 
   const client: SSEClient = {
     id: clientId,
+    email: normaliseEmail(scope.email),
+    homeId: scope.homeId,
     res,
     log,
     heartbeat: setInterval(() => {}, HEARTBEAT_INTERVAL_MS),
@@ -57,9 +178,18 @@ export const registerClient = (
     }
   }, HEARTBEAT_INTERVAL_MS);
 
+  const lastId = parseLastEventId(req);
+  const replayed = lastId === null ? 0 : replayMissedEvents(client, lastId);
+
   clients.set(clientId, client);
   log.info(
-    { clientId, connectedClients: clients.size },
+    {
+      clientId,
+      homeId: scope.homeId,
+      lastEventId: lastId,
+      replayed,
+      connectedClients: clients.size,
+    },
     "SSE client connected",
   );
 
@@ -68,12 +198,31 @@ export const registerClient = (
   });
 };
 
-export const broadcastEvent = (event: string, payload: unknown): void => {
-  const data = JSON.stringify(payload);
+/**
+ * Pushes the event to the streams owned by the target user. Streams filtered
+ * to a home only receive events for that home. Every event gets an ID and is
+ * kept in the user's replay buffer for reconnecting clients.
+ */
+export const broadcastEvent = (
+  event: string,
+  payload: unknown,
+  target: EventTarget,
+): number => {
+  lastEventId += 1;
+  const buffered: BufferedEvent = {
+    id: lastEventId,
+    event,
+    data: JSON.stringify(payload),
+    homeId: target.homeId,
+  };
+  rememberEvent(normaliseEmail(target.email), buffered);
+
   for (const client of clients.values()) {
+    if (!canReceive(client, target)) {
+      continue;
+    }
     try {
-      client.res.write(`event: ${event}\n`);
-      client.res.write(`data: ${data}\n\n`);
+      writeEvent(client, buffered);
     } catch (error) {
       client.log.warn(
         { err: error, event },
@@ -82,6 +231,7 @@ export const broadcastEvent = (event: string, payload: unknown): void => {
       removeClient(client.id);
     }
   }
+  return buffered.id;
 };
 
 export const connectedClients = (): number => clients.size;
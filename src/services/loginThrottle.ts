@@ -0,0 +1,220 @@
+import logger from "../logger";
+
+/**
+ * Failed-login tracking per client IP and per email. A few failures are
+ * free; after that every failure blocks further attempts for an exponentially
+ * growing delay, capped at the lockout duration. Only attempts that BGH
+ * rejected count, so upstream outages never lock anyone out.
+ *
+ * Attempts still waiting on BGH take up budget too, so a burst of parallel
+ * logins cannot try more passwords than the failures left allow. The client
+ * IP is only meaningful when `TRUST_PROXY` matches the deployment; behind an
+ * untrusted proxy every client shares the proxy's address.
+ */
+interface FailureRecord {
+  failures: number;
+  lastFailureAt: number;
+  blockedUntil: number;
+  pending: number;
+}
+
+export interface LoginAttempt {
+  ip: string | null;
+  email: string;
+}
+
+export type LoginThrottleResult =
+  | { allowed: true }
+  | { allowed: false; retryAfterMs: number };
+
+const MAX_FAILURES_PER_EMAIL_ENV_KEY = "LOGIN_MAX_FAILURES_PER_EMAIL";
+const DEFAULT_MAX_FAILURES_PER_EMAIL = 5;
+const MAX_FAILURES_PER_IP_ENV_KEY = "LOGIN_MAX_FAILURES_PER_IP";
+const DEFAULT_MAX_FAILURES_PER_IP = 20;
+const LOCKOUT_ENV_KEY = "LOGIN_LOCKOUT_MS";
+const DEFAULT_LOCKOUT_MS = 1000 * 60 * 15; // 15 minutes
+const BASE_BACKOFF_MS = 1_000;
+const SWEEP_INTERVAL_MS = 60_000;
+
+const records = new Map<string, FailureRecord>();
+let lastSweepAt = 0;
+
+const throttleLog = logger.child({ service: "loginThrottle" });
+
+const resolvePositiveInteger = (envKey: string, fallback: number): number => {
+  const rawValue = process.env[envKey];
+  if (!rawValue) {
+    return fallback;
+  }
+  const parsed = Number(rawValue);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throttleLog.warn(
+      { envKey, value: rawValue },
+      "Invalid login throttle setting, using default",
+    );
+    return fallback;
+  }
+  return parsed;
+};
+
+const resolveLockout = (): number =>
+  resolvePositiveInteger(LOCKOUT_ENV_KEY, DEFAULT_LOCKOUT_MS);
+
+const buildKeys = (
+  attempt: LoginAttempt,
+): Array<{ key: string; maxFailures: number }> => {
+  const keys = [
+    {
+      key: `email:${attempt.email.toLowerCase()}`,
+      maxFailures: resolvePositiveInteger(
+        MAX_FAILURES_PER_EMAIL_ENV_KEY,
+        DEFAULT_MAX_FAILURES_PER_EMAIL,
+      ),
+    },
+  ];
+  if (attempt.ip) {
+    keys.push({
+      key: `ip:${attempt.ip}`,
+      maxFailures: resolvePositiveInteger(
+        MAX_FAILURES_PER_IP_ENV_KEY,
+        DEFAULT_MAX_FAILURES_PER_IP,
+      ),
+    });
+  }
+  return keys;
+};
+
+/** Drops records whose block ended and whose failures are old enough. */
+const sweepRecords = (now: number): void => {
+  if (now - lastSweepAt < SWEEP_INTERVAL_MS) {
+    return;
+  }
+  lastSweepAt = now;
+  const lockout = resolveLockout();
+  for (const [key, record] of records) {
+    if (
+      record.pending === 0 &&
+      record.blockedUntil <= now &&
+      now - record.lastFailureAt > lockout
+    ) {
+      records.delete(key);
+    }
+  }
+};
+
+const releasePending = (key: string): void => {
+  const record = records.get(key);
+  if (!record) {
+    return;
+  }
+  record.pending = Math.max(record.pending - 1, 0);
+  if (record.pending === 0 && record.failures === 0) {
+    records.delete(key);
+  }
+};
+
+/**
+ * Checks whether the attempt may go ahead and, when it may, reserves it until
+ * it is settled with `recordLoginFailure`, `recordLoginSuccess` or
+ * `releaseLoginAttempt`.
+ */
+export const checkLoginAttempt = (
+  attempt: LoginAttempt,
+  now = Date.now(),
+): LoginThrottleResult => {
+  sweepRecords(now);
+  const lockout = resolveLockout();
+  const keys = buildKeys(attempt);
+  let retryAfterMs = 0;
+  for (const { key, maxFailures } of keys) {
+    const record = records.get(key);
+    if (!record) {
+      continue;
+    }
+    if (record.blockedUntil > now) {
+      retryAfterMs = Math.max(retryAfterMs, record.blockedUntil - now);
+      continue;
+    }
+    const failures =
+      now - record.lastFailureAt <= lockout ? record.failures : 0;
+    // Past the free failures only one attempt at a time may be in flight.
+    if (
+      record.pending > 0 &&
+      failures + record.pending >= Math.max(maxFailures, failures + 1)
+    ) {
+      retryAfterMs = Math.max(retryAfterMs, BASE_BACKOFF_MS);
+    }
+  }
+  if (retryAfterMs > 0) {
+    return { allowed: false, retryAfterMs };
+  }
+  for (const { key } of keys) {
+    const record = records.get(key);
+    if (record) {
+      record.pending += 1;
+    } else {
+      records.set(key, {
+        failures: 0,
+        lastFailureAt: 0,
+        blockedUntil: 0,
+        pending: 1,
+      });
+    }
+  }
+  return { allowed: true };
+};
+
+export const recordLoginFailure = (
+  attempt: LoginAttempt,
+  now = Date.now(),
+): void => {
+  const lockout = resolveLockout();
+  for (const { key, maxFailures } of buildKeys(attempt)) {
+    const previous = records.get(key);
+    // Failures older than the lockout window are forgiven.
+    const failures =
+      previous && now - previous.lastFailureAt <= lockout
+        ? previous.failures + 1
+        : 1;
+    const excess = failures - maxFailures;
+    const blockedUntil =
+      excess > 0
+        ? now + Math.min(BASE_BACKOFF_MS * 2 ** (excess - 1), lockout)
+        : 0;
+    records.set(key, {
+      failures,
+      lastFailureAt: now,
+      blockedUntil,
+      pending: Math.max((previous?.pending ?? 0) - 1, 0),
+    });
+    if (excess > 0) {
+      throttleLog.warn(
+        { key, failures, blockedForMs: blockedUntil - now },
+        "Throttling login attempts",
+      );
+    }
+  }
+};
+
+/**
+ * Clears the email's failure history. The IP record is kept so a client
+ * cannot reset its budget by logging into an account it controls.
+ */
+export const recordLoginSuccess = (attempt: LoginAttempt): void => {
+  records.delete(`email:${attempt.email.toLowerCase()}`);
+  if (attempt.ip) {
+    releasePending(`ip:${attempt.ip}`);
+  }
+};
+
+/** Gives back an attempt that ended before BGH judged the credentials. */
+export const releaseLoginAttempt = (attempt: LoginAttempt): void => {
+  for (const { key } of buildKeys(attempt)) {
+    releasePending(key);
+  }
+};
+
+export const resetLoginThrottle = (): void => {
+  records.clear();
+  lastSweepAt = 0;
+};
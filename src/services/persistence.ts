@@ -0,0 +1,152 @@
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from "fs";
+import path from "path";
+import type { Logger } from "pino";
+
+/**
+ * Reads a JSON document written by `writeJsonFile`, returning the fallback
+ * when the file does not exist yet.
+ */
+export const readJsonFile = <T>(filePath: string, fallback: T): T => {
+  if (!existsSync(filePath)) {
+    return fallback;
+  }
+  const content = readFileSync(filePath, "utf8");
+  if (content.trim().length === 0) {
+    return fallback;
+  }
+  return JSON.parse(content) as T;
+};
+
+/**
+ * Writes the document to a temporary sibling first and renames it over the
+ * target, so a crash mid-write never leaves a truncated file behind.
+ */
+export const writeJsonFile = (filePath: string, data: unknown): void => {
+  mkdirSync(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  writeFileSync(tempPath, `${JSON.stringify(data, null, 2)}\n`, {
+    encoding: "utf8",
+    mode: 0o600,
+  });
+  renameSync(tempPath, filePath);
+};
+
+/**
+ * Renames an unreadable data file next to itself so it can be inspected
+ * later. Returns the new path, or null when the file could not be moved.
+ */
+export const moveFileAside = (filePath: string): string | null => {
+  const targetPath = `${filePath}.corrupt-${Date.now()}`;
+  try {
+    renameSync(filePath, targetPath);
+    return targetPath;
+  } catch {
+    return null;
+  }
+};
+
+/** Resolves an env-configured data file path, or null when it is unset. */
+export const resolveDataPath = (envKey: string): string | null => {
+  const rawPath = process.env[envKey]?.trim();
+  if (!rawPath) {
+    return null;
+  }
+  return path.resolve(rawPath);
+};
+
+/** Records a store keeps, each under its own ID. */
+export interface RecordStore<T extends { id: string }> {
+  load(): T[];
+  save(record: T): void;
+  remove(id: string): void;
+}
+
+export class MemoryRecordStore<T extends { id: string }>
+  implements RecordStore<T>
+{
+  private readonly records = new Map<string, T>();
+
+  load(): T[] {
+    return Array.from(this.records.values());
+  }
+
+  save(record: T): void {
+    this.records.set(record.id, record);
+  }
+
+  remove(id: string): void {
+    this.records.delete(id);
+  }
+}
+
+/**
+ * Keeps every record in a single JSON document, rewritten on each change.
+ * Fine for the few hundred records a single instance holds at a time.
+ */
+export class JsonFileRecordStore<T extends { id: string }>
+  implements RecordStore<T>
+{
+  private readonly records = new Map<string, T>();
+
+  /** `label` names the records in log messages, e.g. "scenes". */
+  constructor(
+    private readonly filePath: string,
+    private readonly log: Logger,
+    private readonly label: string,
+  ) {
+    for (const record of this.readPersisted()) {
+      this.records.set(record.id, record);
+    }
+  }
+
+  load(): T[] {
+    return Array.from(this.records.values());
+  }
+
+  save(record: T): void {
+    this.records.set(record.id, record);
+    this.flush();
+  }
+
+  remove(id: string): void {
+    if (this.records.delete(id)) {
+      this.flush();
+    }
+  }
+
+  // An unreadable file must not keep the server from starting: it is moved
+  // aside for inspection and the store starts empty.
+  private readPersisted(): T[] {
+    try {
+      const persisted = readJsonFile<unknown>(this.filePath, []);
+      if (!Array.isArray(persisted)) {
+        throw new Error(`Expected a list of ${this.label}`);
+      }
+      return persisted as T[];
+    } catch (error) {
+      const movedTo = moveFileAside(this.filePath);
+      this.log.error(
+        { err: error, filePath: this.filePath, movedTo },
+        `Discarding unreadable ${this.label} file`,
+      );
+      return [];
+    }
+  }
+
+  private flush(): void {
+    try {
+      writeJsonFile(this.filePath, Array.from(this.records.values()));
+    } catch (error) {
+      this.log.error(
+        { err: error, filePath: this.filePath },
+        `Failed to persist ${this.label}`,
+      );
+    }
+  }
+}
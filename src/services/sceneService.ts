@@ -0,0 +1,436 @@
+import { randomUUID } from "crypto";
+import type { Logger } from "pino";
+import { FAN_MODES, HVAC_MODES } from "integrations/bgh/client";
+import type { BghCredentials } from "./bghService";
+import {
+  enqueueCommand,
+  onCommandJobFinished,
+  type CommandJobRecord,
+  type FanKey,
+  type ModeKey,
+} from "./commandQueue";
+import { broadcastEvent } from "./eventStream";
+import { createSceneStore, type SceneStore } from "./sceneStore";
+
+export type SceneErrorCode = "INVALID_SCENE" | "NOT_FOUND";
+
+export class SceneError extends Error {
+  constructor(
+    message: string,
+    public readonly code: SceneErrorCode,
+  ) {
+    super(message);
+    this.name = "SceneError";
+  }
+}
+
+/** Desired state for one device when the scene is applied. */
+export interface SceneEntry {
+  deviceId: number;
+  mode: ModeKey;
+  targetTemperature: number;
+  fan?: FanKey;
+}
+
+export interface SceneRecord {
+  id: string;
+  homeId: number;
+  name: string;
+  entries: SceneEntry[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface PersistedScene extends SceneRecord {
+  ownerEmail: string;
+}
+
+export interface SceneChanges {
+  name?: unknown;
+  entries?: unknown;
+}
+
+export type SceneRunState = "running" | "completed" | "partial" | "failed";
+
+export interface SceneRunDevice {
+  deviceId: number;
+  /** Command job currently carrying this entry; null when it was rejected. */
+  jobId: string | null;
+  outcome: "pending" | "completed" | "failed";
+  error: string | null;
+}
+
+/** Aggregate job for one application of a scene. */
+export interface SceneRunRecord {
+  id: string;
+  sceneId: string;
+  homeId: number;
+  state: SceneRunState;
+  startedAt: number;
+  finishedAt: number | null;
+  devices: SceneRunDevice[];
+}
+
+interface SceneRun extends SceneRunRecord {
+  ownerEmail: string;
+}
+
+export interface ApplySceneOptions {
+  credentials: BghCredentials;
+  log: Logger;
+  /** Returns why an entry cannot be sent, or null when it can. */
+  checkEntry?: (entry: SceneEntry) => string | null;
+}
+
+const MAX_SCENE_ENTRIES = 32;
+const RUN_RETENTION_MS = 1000 * 60 * 60; // 1 hour
+
+let store: SceneStore = createSceneStore();
+let scenes = new Map<string, PersistedScene>();
+const runs = new Map<string, SceneRun>();
+// A job can belong to several runs once it supersedes their pending jobs.
+const runsByJob = new Map<string, string[]>();
+
+const loadFromStore = (): void => {
+  scenes = new Map(store.load().map((scene) => [scene.id, scene]));
+};
+
+loadFromStore();
+
+export const setSceneStore = (sceneStore: SceneStore): void => {
+  store = sceneStore;
+  loadFromStore();
+};
+
+const toRecord = (scene: PersistedScene): SceneRecord => ({
+  id: scene.id,
+  homeId: scene.homeId,
+  name: scene.name,
+  entries: scene.entries.map((entry) => ({ ...entry })),
+  createdAt: scene.createdAt,
+  updatedAt: scene.updatedAt,
+});
+
+const toRunRecord = (run: SceneRun): SceneRunRecord => ({
+  id: run.id,
+  sceneId: run.sceneId,
+  homeId: run.homeId,
+  state: run.state,
+  startedAt: run.startedAt,
+  finishedAt: run.finishedAt,
+  devices: run.devices.map((device) => ({ ...device })),
+});
+
+const isOwnedBy = (owner: { ownerEmail: string }, email: string): boolean =>
+  owner.ownerEmail.toLowerCase() === email.toLowerCase();
+
+const parseName = (input: unknown): string => {
+  if (typeof input !== "string" || input.trim().length === 0) {
+    throw new SceneError(
+      "Field 'name' must be a non-empty string.",
+      "INVALID_SCENE",
+    );
+  }
+  return input.trim();
+};
+
+const parseEntry = (input: unknown, index: number): SceneEntry => {
+  if (typeof input !== "object" || input === null) {
+    throw new SceneError(`Entry ${index} must be an object.`, "INVALID_SCENE");
+  }
+  const { deviceId, mode, targetTemperature, fan } = input as Record<
+    string,
+    unknown
+  >;
+  if (typeof deviceId !== "number" || !Number.isInteger(deviceId)) {
+    throw new SceneError(
+      `Entry ${index} 'deviceId' must be an integer.`,
+      "INVALID_SCENE",
+    );
+  }
+  if (
+    typeof mode !== "string" ||
+    !(mode in HVAC_MODES) ||
+    mode === "no_change"
+  ) {
+    throw new SceneError(
+      `Entry ${index} has unsupported mode '${String(mode)}'.`,
+      "INVALID_SCENE",
+    );
+  }
+  if (
+    typeof targetTemperature !== "number" ||
+    !Number.isFinite(targetTemperature)
+  ) {
+    throw new SceneError(
+      `Entry ${index} 'targetTemperature' must be a number.`,
+      "INVALID_SCENE",
+    );
+  }
+  const entry: SceneEntry = { deviceId, mode, targetTemperature };
+  if (fan !== undefined) {
+    if (typeof fan !== "string" || !(fan in FAN_MODES)) {
+      throw new SceneError(
+        `Entry ${index} has unsupported fan mode '${String(fan)}'.`,
+        "INVALID_SCENE",
+      );
+    }
+    entry.fan = fan;
+  }
+  return entry;
+};
+
+const parseEntries = (input: unknown): SceneEntry[] => {
+  if (
+    !Array.isArray(input) ||
+    input.length === 0 ||
+    input.length > MAX_SCENE_ENTRIES
+  ) {
+    throw new SceneError(
+      `Field 'entries' must list between 1 and ${MAX_SCENE_ENTRIES} devices.`,
+      "INVALID_SCENE",
+    );
+  }
+  const entries = input.map(parseEntry);
+  const deviceIds = new Set(entries.map((entry) => entry.deviceId));
+  if (deviceIds.size !== entries.length) {
+    throw new SceneError(
+      "Each device can appear only once in a scene.",
+      "INVALID_SCENE",
+    );
+  }
+  return entries;
+};
+
+const findOwnedScene = (
+  ownerEmail: string,
+  homeId: number,
+  sceneId: string,
+): PersistedScene => {
+  const scene = scenes.get(sceneId);
+  if (!scene || scene.homeId !== homeId || !isOwnedBy(scene, ownerEmail)) {
+    throw new SceneError(`Scene '${sceneId}' not found.`, "NOT_FOUND");
+  }
+  return scene;
+};
+
+export const listScenes = (ownerEmail: string, homeId: number): SceneRecord[] =>
+  Array.from(scenes.values())
+    .filter((scene) => scene.homeId === homeId && isOwnedBy(scene, ownerEmail))
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map(toRecord);
+
+export const getScene = (
+  ownerEmail: string,
+  homeId: number,
+  sceneId: string,
+): SceneRecord => toRecord(findOwnedScene(ownerEmail, homeId, sceneId));
+
+export const createScene = (
+  ownerEmail: string,
+  homeId: number,
+  input: SceneChanges,
+  now = Date.now(),
+): SceneRecord => {
+  const scene: PersistedScene = {
+    id: randomUUID(),
+    ownerEmail,
+    homeId,
+    name: parseName(input.name),
+    entries: parseEntries(input.entries),
+    createdAt: now,
+    updatedAt: now,
+  };
+  scenes.set(scene.id, scene);
+  store.save(scene);
+  return toRecord(scene);
+};
+
+export const updateScene = (
+  ownerEmail: string,
+  homeId: number,
+  sceneId: string,
+  changes: SceneChanges,
+  now = Date.now(),
+): SceneRecord => {
+  const scene = findOwnedScene(ownerEmail, homeId, sceneId);
+  const updated: PersistedScene = {
+    ...scene,
+    name: changes.name === undefined ? scene.name : parseName(changes.name),
+    entries:
+      changes.entries === undefined
+        ? scene.entries
+        : parseEntries(changes.entries),
+    updatedAt: now,
+  };
+  scenes.set(updated.id, updated);
+  store.save(updated);
+  return toRecord(updated);
+};
+
+export const deleteScene = (
+  ownerEmail: string,
+  homeId: number,
+  sceneId: string,
+): void => {
+  findOwnedScene(ownerEmail, homeId, sceneId);
+  scenes.delete(sceneId);
+  store.remove(sceneId);
+};
+
+const pruneFinishedRuns = (now: number): void => {
+  for (const [runId, run] of runs.entries()) {
+    if (run.finishedAt !== null && now - run.finishedAt > RUN_RETENTION_MS) {
+      runs.delete(runId);
+    }
+  }
+};
+
+const trackJob = (jobId: string, runId: string): void => {
+  runsByJob.set(jobId, [...(runsByJob.get(jobId) ?? []), runId]);
+};
+
+const publishDeviceResult = (run: SceneRun, device: SceneRunDevice): void => {
+  broadcastEvent(
+    "scene-device-result",
+    {
+      runId: run.id,
+      sceneId: run.sceneId,
+      homeId: run.homeId,
+      deviceId: device.deviceId,
+      jobId: device.jobId,
+      outcome: device.outcome,
+      error: device.error,
+    },
+    { email: run.ownerEmail, homeId: run.homeId },
+  );
+};
+
+const settleRun = (run: SceneRun): void => {
+  if (run.devices.some((device) => device.outcome === "pending")) {
+    return;
+  }
+  const completed = run.devices.filter(
+    (device) => device.outcome === "completed",
+  ).length;
+  if (completed === run.devices.length) {
+    run.state = "completed";
+  } else {
+    run.state = completed === 0 ? "failed" : "partial";
+  }
+  run.finishedAt = Date.now();
+  broadcastEvent("scene-finished", toRunRecord(run), {
+    email: run.ownerEmail,
+    homeId: run.homeId,
+  });
+};
+
+// Superseded jobs hand their entry over to the job that replaced them, which
+// carries the same intent merged with the newer command.
+const handleJobFinished = (job: CommandJobRecord): void => {
+  const runIds = runsByJob.get(job.id);
+  if (!runIds) {
+    return;
+  }
+  runsByJob.delete(job.id);
+
+  for (const runId of runIds) {
+    const run = runs.get(runId);
+    const device = run?.devices.find((entry) => entry.jobId === job.id);
+    if (!run || !device) {
+      continue;
+    }
+    if (job.state === "superseded" && job.supersededBy) {
+      device.jobId = job.supersededBy;
+      trackJob(job.supersededBy, run.id);
+      continue;
+    }
+    device.outcome = job.state === "completed" ? "completed" : "failed";
+    device.error =
+      job.state === "completed" ? null : (job.error ?? `Command ${job.state}`);
+    publishDeviceResult(run, device);
+    settleRun(run);
+  }
+};
+
+onCommandJobFinished(handleJobFinished);
+
+/**
+ * Queues one command per scene entry and returns the aggregate run. Entries
+ * rejected by `checkEntry` fail straight away; the rest report through
+ * `scene-device-result` events as their jobs finish, followed by a single
+ * `scene-finished` event. Runs live in memory only.
+ */
+export const applyScene = (
+  homeId: number,
+  sceneId: string,
+  { credentials, log, checkEntry }: ApplySceneOptions,
+  now = Date.now(),
+): SceneRunRecord => {
+  const scene = findOwnedScene(credentials.email, homeId, sceneId);
+  pruneFinishedRuns(now);
+
+  const run: SceneRun = {
+    id: randomUUID(),
+    ownerEmail: credentials.email,
+    sceneId: scene.id,
+    homeId,
+    state: "running",
+    startedAt: now,
+    finishedAt: null,
+    devices: [],
+  };
+  runs.set(run.id, run);
+  const runLog = log.child({ sceneId: scene.id, runId: run.id });
+
+  const rejected: SceneRunDevice[] = [];
+  for (const { deviceId, ...payload } of scene.entries) {
+    const problem = checkEntry?.({ deviceId, ...payload }) ?? null;
+    if (problem) {
+      runLog.warn({ deviceId }, problem);
+      const device: SceneRunDevice = {
+        deviceId,
+        jobId: null,
+        outcome: "failed",
+        error: problem,
+      };
+      run.devices.push(device);
+      rejected.push(device);
+      continue;
+    }
+    const { jobId } = enqueueCommand({
+      credentials,
+      homeId,
+      deviceId,
+      payload,
+      log: runLog,
+    });
+    run.devices.push({ deviceId, jobId, outcome: "pending", error: null });
+    trackJob(jobId, run.id);
+  }
+
+  runLog.info(
+    { queued: run.devices.length - rejected.length, rejected: rejected.length },
+    "Scene applied",
+  );
+  for (const device of rejected) {
+    publishDeviceResult(run, device);
+  }
+  settleRun(run);
+  return toRunRecord(run);
+};
+
+/**
+ * Returns the run when it belongs to the given user; runs owned by someone
+ * else are reported as missing.
+ */
+export const getSceneRun = (
+  runId: string,
+  ownerEmail: string,
+): SceneRunRecord | null => {
+  const run = runs.get(runId);
+  if (!run || !isOwnedBy(run, ownerEmail)) {
+    return null;
+  }
+  return toRunRecord(run);
+};
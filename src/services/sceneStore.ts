@@ -0,0 +1,32 @@
+import logger from "../logger";
+import type { PersistedScene } from "./sceneService";
+import {
+  JsonFileRecordStore,
+  MemoryRecordStore,
+  resolveDataPath,
+  type RecordStore,
+} from "./persistence";
+
+export type SceneStore = RecordStore<PersistedScene>;
+
+const STORE_PATH_ENV_KEY = "SCENE_STORE_PATH";
+
+const storeLog = logger.child({ service: "sceneStore" });
+
+export class MemorySceneStore extends MemoryRecordStore<PersistedScene> {}
+
+/** Keeps the scenes in the file named by `SCENE_STORE_PATH`. */
+export class FileSceneStore extends JsonFileRecordStore<PersistedScene> {
+  constructor(filePath: string) {
+    super(filePath, storeLog, "scenes");
+  }
+}
+
+export const createSceneStore = (): SceneStore => {
+  const filePath = resolveDataPath(STORE_PATH_ENV_KEY);
+  if (!filePath) {
+    return new MemorySceneStore();
+  }
+  storeLog.info({ filePath }, "Persisting scenes to file");
+  return new FileSceneStore(filePath);
+};
@@ -0,0 +1,339 @@
+/**
+ * When a schedule fires. Times are wall-clock times in the home's timezone:
+ * `once` runs a single time, `weekly` on the given weekdays (0 = Sunday) and
+ * `cron` follows a five-field expression (minute hour day month weekday).
+ */
+export type ScheduleRule =
+  | { type: "once"; at: string }
+  | { type: "weekly"; days: number[]; time: string }
+  | { type: "cron"; expression: string };
+
+export class ScheduleRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScheduleRuleError";
+  }
+}
+
+interface CronFields {
+  minutes: number[];
+  hours: number[];
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  /** Cron matches either day field when both are restricted. */
+  daysRestricted: boolean;
+  weekdaysRestricted: boolean;
+}
+
+interface LocalParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const LOCAL_DATE_TIME_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})T([01]\d|2[0-3]):([0-5]\d)$/;
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// Long enough to reach the next 29th of February.
+const MAX_SEARCH_DAYS = 366 * 4 + 1;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timezone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimezone = (timezone: string): boolean => {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const toLocalParts = (timestamp: number, timezone: string): LocalParts => {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timezone).formatToParts(timestamp)) {
+    if (part.type !== "literal") {
+      parts[part.type] = Number(part.value);
+    }
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+  };
+};
+
+/** Parses an "HH:mm" time into minutes after midnight, or null if invalid. */
+export const parseTimeOfDay = (value: string): number | null => {
+  const match = TIME_PATTERN.exec(value);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+/** Minutes after local midnight in the timezone at the given instant. */
+export const localMinuteOfDay = (
+  timestamp: number,
+  timezone: string,
+): number => {
+  const local = toLocalParts(timestamp, timezone);
+  return local.hour * 60 + local.minute;
+};
+
+const offsetAt = (timestamp: number, timezone: string): number => {
+  const local = toLocalParts(timestamp, timezone);
+  const asUtc = Date.UTC(
+    local.year,
+    local.month - 1,
+    local.day,
+    local.hour,
+    local.minute,
+  );
+  return asUtc - Math.floor(timestamp / MINUTE_MS) * MINUTE_MS;
+};
+
+/** Converts a wall-clock time in the timezone to a UTC timestamp. */
+const zonedToUtc = (local: LocalParts, timezone: string): number => {
+  const asUtc = Date.UTC(
+    local.year,
+    local.month - 1,
+    local.day,
+    local.hour,
+    local.minute,
+  );
+  // A second pass settles times next to an offset change.
+  const guess = asUtc - offsetAt(asUtc, timezone);
+  return asUtc - offsetAt(guess, timezone);
+};
+
+const parseCronField = (
+  field: string,
+  min: number,
+  max: number,
+  name: string,
+): number[] => {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, rawStep] = part.split("/");
+    if (!range) {
+      throw new ScheduleRuleError(`Invalid cron ${name} '${part}'.`);
+    }
+    const step = rawStep === undefined ? 1 : Number(rawStep);
+    if (!Number.isInteger(step) || step <= 0) {
+      throw new ScheduleRuleError(`Invalid step in cron ${name} '${part}'.`);
+    }
+
+    let start = min;
+    let end = max;
+    if (range !== "*") {
+      const [rawStart, rawEnd] = range.split("-");
+      start = Number(rawStart);
+      end = rawEnd === undefined ? (rawStep ? max : start) : Number(rawEnd);
+    }
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      start < min ||
+      end > max ||
+      start > end
+    ) {
+      throw new ScheduleRuleError(`Invalid cron ${name} '${part}'.`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return Array.from(values).sort((a, b) => a - b);
+};
+
+const parseCronExpression = (expression: string): CronFields => {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new ScheduleRuleError(
+      "Cron expressions must have five fields: minute hour day month weekday.",
+    );
+  }
+  const [minute, hour, day, month, weekday] = fields;
+  return {
+    minutes: parseCronField(minute, 0, 59, "minute"),
+    hours: parseCronField(hour, 0, 23, "hour"),
+    days: new Set(parseCronField(day, 1, 31, "day")),
+    months: new Set(parseCronField(month, 1, 12, "month")),
+    // 7 is accepted as Sunday, like most cron implementations.
+    weekdays: new Set(
+      parseCronField(weekday, 0, 7, "weekday").map((value) => value % 7),
+    ),
+    daysRestricted: day !== "*",
+    weekdaysRestricted: weekday !== "*",
+  };
+};
+
+const toCronFields = (rule: ScheduleRule): CronFields | null => {
+  if (rule.type === "cron") {
+    return parseCronExpression(rule.expression);
+  }
+  if (rule.type === "weekly") {
+    const [hour, minute] = rule.time.split(":");
+    return parseCronExpression(
+      `${Number(minute)} ${Number(hour)} * * ${rule.days.join(",")}`,
+    );
+  }
+  return null;
+};
+
+const parseLocalDateTime = (value: string): LocalParts | null => {
+  const match = LOCAL_DATE_TIME_PATTERN.exec(value);
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day, hour, minute] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return { year, month, day, hour, minute };
+};
+
+/**
+ * Checks a rule received from a client and returns it in canonical form.
+ * Throws a `ScheduleRuleError` describing the first problem found.
+ */
+export const normaliseRule = (input: unknown): ScheduleRule => {
+  if (typeof input !== "object" || input === null) {
+    throw new ScheduleRuleError("Field 'rule' must be an object.");
+  }
+  const rule = input as Record<string, unknown>;
+
+  if (rule.type === "once") {
+    if (typeof rule.at !== "string" || !parseLocalDateTime(rule.at)) {
+      throw new ScheduleRuleError(
+        "Rule 'at' must be a local date and time like '2026-01-31T22:30'.",
+      );
+    }
+    return { type: "once", at: rule.at };
+  }
+
+  if (rule.type === "weekly") {
+    if (typeof rule.time !== "string" || !TIME_PATTERN.test(rule.time)) {
+      throw new ScheduleRuleError("Rule 'time' must look like 'HH:mm'.");
+    }
+    const days = Array.isArray(rule.days) ? rule.days : [];
+    if (
+      days.length === 0 ||
+      !days.every((day) => Number.isInteger(day) && day >= 0 && day <= 6)
+    ) {
+      throw new ScheduleRuleError(
+        "Rule 'days' must list weekdays from 0 (Sunday) to 6 (Saturday).",
+      );
+    }
+    return {
+      type: "weekly",
+      days: Array.from(new Set(days as number[])).sort((a, b) => a - b),
+      time: rule.time,
+    };
+  }
+
+  if (rule.type === "cron") {
+    if (typeof rule.expression !== "string") {
+      throw new ScheduleRuleError("Rule 'expression' must be a string.");
+    }
+    const expression = rule.expression.trim().replace(/\s+/g, " ");
+    parseCronExpression(expression);
+    return { type: "cron", expression };
+  }
+
+  throw new ScheduleRuleError(
+    "Rule 'type' must be one of 'once', 'weekly' or 'cron'.",
+  );
+};
+
+const matchesDay = (cron: CronFields, local: LocalParts): boolean => {
+  if (!cron.months.has(local.month)) {
+    return false;
+  }
+  const weekday = new Date(
+    Date.UTC(local.year, local.month - 1, local.day),
+  ).getUTCDay();
+  const dayMatches = cron.days.has(local.day);
+  const weekdayMatches = cron.weekdays.has(weekday);
+  if (cron.daysRestricted && cron.weekdaysRestricted) {
+    return dayMatches || weekdayMatches;
+  }
+  return dayMatches && weekdayMatches;
+};
+
+/**
+ * Returns the first time strictly after `after` at which the rule fires in
+ * the given timezone, or null when it never fires again.
+ */
+export const nextRunAfter = (
+  rule: ScheduleRule,
+  timezone: string,
+  after: number,
+): number | null => {
+  if (rule.type === "once") {
+    const local = parseLocalDateTime(rule.at);
+    if (!local) {
+      return null;
+    }
+    const runAt = zonedToUtc(local, timezone);
+    return runAt > after ? runAt : null;
+  }
+
+  const cron = toCronFields(rule);
+  if (!cron) {
+    return null;
+  }
+
+  const start = toLocalParts(after, timezone);
+  const startDay = Date.UTC(start.year, start.month - 1, start.day);
+  for (let offset = 0; offset < MAX_SEARCH_DAYS; offset += 1) {
+    const date = new Date(startDay + offset * DAY_MS);
+    const day: LocalParts = {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      hour: 0,
+      minute: 0,
+    };
+    if (!matchesDay(cron, day)) {
+      continue;
+    }
+    for (const hour of cron.hours) {
+      for (const minute of cron.minutes) {
+        if (
+          offset === 0 &&
+          hour * 60 + minute < start.hour * 60 + start.minute
+        ) {
+          continue;
+        }
+        const runAt = zonedToUtc({ ...day, hour, minute }, timezone);
+        if (runAt > after) {
+          return runAt;
+        }
+      }
+    }
+  }
+  return null;
+};
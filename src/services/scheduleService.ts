@@ -0,0 +1,541 @@
+import { randomUUID } from "crypto";
+import type { Logger } from "pino";
+import { FAN_MODES, HVAC_MODES } from "integrations/bgh/client";
+import logger from "../logger";
+import type { CredentialResolver } from "./bghService";
+import { enqueueCommand, type CommandPayload } from "./commandQueue";
+import { findUnsupportedSetting } from "./commandValidation";
+import { getKnownDevice } from "./deviceCache";
+import { broadcastEvent } from "./eventStream";
+import {
+  ScheduleRuleError,
+  isValidTimezone,
+  nextRunAfter,
+  normaliseRule,
+  type ScheduleRule,
+} from "./scheduleRules";
+import { createScheduleStore, type ScheduleStore } from "./scheduleStore";
+
+export type ScheduleErrorCode = "INVALID_SCHEDULE" | "NOT_FOUND";
+
+export class ScheduleError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ScheduleErrorCode,
+  ) {
+    super(message);
+    this.name = "ScheduleError";
+  }
+}
+
+export type ScheduleRunOutcome = "queued" | "skipped" | "missed";
+
+export interface ScheduleExecution {
+  scheduledFor: number;
+  firedAt: number;
+  outcome: ScheduleRunOutcome;
+  jobId: string | null;
+  error: string | null;
+}
+
+export interface ScheduleRecord {
+  id: string;
+  homeId: number;
+  deviceId: number;
+  name: string | null;
+  enabled: boolean;
+  rule: ScheduleRule;
+  command: CommandPayload;
+  nextRunAt: number | null;
+  lastRunAt: number | null;
+  createdAt: number;
+  updatedAt: number;
+  /** Most recent runs first. */
+  history: ScheduleExecution[];
+}
+
+export interface PersistedSchedule extends ScheduleRecord {
+  ownerEmail: string;
+}
+
+export interface ScheduleChanges {
+  deviceId?: unknown;
+  name?: unknown;
+  enabled?: unknown;
+  rule?: unknown;
+  command?: unknown;
+}
+
+export interface SchedulerClock {
+  now(): number;
+}
+
+export interface SchedulerOptions {
+  resolveCredentials: CredentialResolver;
+  log?: Logger;
+  clock?: SchedulerClock;
+}
+
+const DEFAULT_TIMEZONE_ENV_KEY = "SCHEDULE_DEFAULT_TIMEZONE";
+const DEFAULT_TIMEZONE = "America/Argentina/Buenos_Aires";
+const MISFIRE_GRACE_ENV_KEY = "SCHEDULE_MISFIRE_GRACE_MS";
+const DEFAULT_MISFIRE_GRACE_MS = 1000 * 60 * 5; // 5 minutes
+const TICK_INTERVAL_MS = 15_000;
+const HISTORY_LIMIT = 20;
+
+const systemClock: SchedulerClock = { now: () => Date.now() };
+
+const schedulerLog = logger.child({ service: "scheduler" });
+
+let store: ScheduleStore = createScheduleStore();
+let schedules = new Map<string, PersistedSchedule>();
+let timezones = new Map<string, string>();
+
+const loadFromStore = (): void => {
+  const state = store.load();
+  schedules = new Map(state.schedules.map((entry) => [entry.id, entry]));
+  timezones = new Map(Object.entries(state.timezones));
+};
+
+loadFromStore();
+
+/** Replaces the store, dropping schedules and timezones held in memory. */
+export const setScheduleStore = (scheduleStore: ScheduleStore): void => {
+  store = scheduleStore;
+  loadFromStore();
+};
+
+const resolveDefaultTimezone = (): string => {
+  const configured = process.env[DEFAULT_TIMEZONE_ENV_KEY]?.trim();
+  if (configured && isValidTimezone(configured)) {
+    return configured;
+  }
+  return DEFAULT_TIMEZONE;
+};
+
+const resolveMisfireGrace = (): number => {
+  const parsed = Number(process.env[MISFIRE_GRACE_ENV_KEY]);
+  return Number.isFinite(parsed) && parsed >= 0
+    ? parsed
+    : DEFAULT_MISFIRE_GRACE_MS;
+};
+
+// Every user sets the timezone of their own view of a home, so nobody can
+// move the schedules and automation windows of someone else sharing it.
+const buildTimezoneKey = (ownerEmail: string, homeId: number): string =>
+  `${ownerEmail.toLowerCase()}:${homeId}`;
+
+export const getHomeTimezone = (ownerEmail: string, homeId: number): string =>
+  timezones.get(buildTimezoneKey(ownerEmail, homeId)) ??
+  resolveDefaultTimezone();
+
+const toRecord = (schedule: PersistedSchedule): ScheduleRecord => ({
+  id: schedule.id,
+  homeId: schedule.homeId,
+  deviceId: schedule.deviceId,
+  name: schedule.name,
+  enabled: schedule.enabled,
+  rule: schedule.rule,
+  command: { ...schedule.command },
+  nextRunAt: schedule.nextRunAt,
+  lastRunAt: schedule.lastRunAt,
+  createdAt: schedule.createdAt,
+  updatedAt: schedule.updatedAt,
+  history: schedule.history.map((entry) => ({ ...entry })),
+});
+
+const isOwnedBy = (schedule: PersistedSchedule, email: string): boolean =>
+  schedule.ownerEmail.toLowerCase() === email.toLowerCase();
+
+const computeNextRun = (
+  schedule: PersistedSchedule,
+  after: number,
+): number | null =>
+  schedule.enabled
+    ? nextRunAfter(
+        schedule.rule,
+        getHomeTimezone(schedule.ownerEmail, schedule.homeId),
+        after,
+      )
+    : null;
+
+const parseRule = (input: unknown): ScheduleRule => {
+  try {
+    return normaliseRule(input);
+  } catch (error) {
+    if (error instanceof ScheduleRuleError) {
+      throw new ScheduleError(error.message, "INVALID_SCHEDULE");
+    }
+    throw error;
+  }
+};
+
+const parseCommand = (input: unknown): CommandPayload => {
+  if (typeof input !== "object" || input === null) {
+    throw new ScheduleError(
+      "Field 'command' must be an object.",
+      "INVALID_SCHEDULE",
+    );
+  }
+  const { mode, targetTemperature, fan } = input as Record<string, unknown>;
+  if (typeof mode !== "string" || !(mode in HVAC_MODES)) {
+    throw new ScheduleError(
+      `Unsupported mode '${String(mode)}'.`,
+      "INVALID_SCHEDULE",
+    );
+  }
+  if (
+    typeof targetTemperature !== "number" ||
+    !Number.isFinite(targetTemperature)
+  ) {
+    throw new ScheduleError(
+      "Command 'targetTemperature' must be a number.",
+      "INVALID_SCHEDULE",
+    );
+  }
+  const command: CommandPayload = { mode, targetTemperature };
+  if (fan !== undefined) {
+    if (typeof fan !== "string" || !(fan in FAN_MODES)) {
+      throw new ScheduleError(
+        `Unsupported fan mode '${String(fan)}'.`,
+        "INVALID_SCHEDULE",
+      );
+    }
+    command.fan = fan;
+  }
+  return command;
+};
+
+/**
+ * Checks the command against the last known capabilities of the device.
+ * Devices never read yet are accepted and checked again when the run fires.
+ */
+const findUnsupportedCommand = (schedule: PersistedSchedule): string | null => {
+  const device = getKnownDevice(
+    schedule.ownerEmail,
+    schedule.homeId,
+    schedule.deviceId,
+  );
+  return device
+    ? findUnsupportedSetting(device.capabilities, schedule.command)
+    : null;
+};
+
+const assertSupportedCommand = (schedule: PersistedSchedule): void => {
+  const unsupported = findUnsupportedCommand(schedule);
+  if (unsupported) {
+    throw new ScheduleError(unsupported, "INVALID_SCHEDULE");
+  }
+};
+
+const assertFiresAgain = (schedule: PersistedSchedule): void => {
+  if (schedule.enabled && schedule.nextRunAt === null) {
+    throw new ScheduleError(
+      "The rule never fires in the future.",
+      "INVALID_SCHEDULE",
+    );
+  }
+};
+
+const parseDeviceId = (input: unknown): number => {
+  if (typeof input !== "number" || !Number.isInteger(input)) {
+    throw new ScheduleError(
+      "Field 'deviceId' must be an integer.",
+      "INVALID_SCHEDULE",
+    );
+  }
+  return input;
+};
+
+const parseName = (input: unknown): string | null => {
+  if (input === undefined || input === null) {
+    return null;
+  }
+  if (typeof input !== "string") {
+    throw new ScheduleError(
+      "Field 'name' must be a string.",
+      "INVALID_SCHEDULE",
+    );
+  }
+  const trimmed = input.trim();
+  return trimmed.length > 0 ? trimmed : null;
+};
+
+const parseEnabled = (input: unknown): boolean => {
+  if (typeof input !== "boolean") {
+    throw new ScheduleError(
+      "Field 'enabled' must be a boolean.",
+      "INVALID_SCHEDULE",
+    );
+  }
+  return input;
+};
+
+const findOwnedSchedule = (
+  ownerEmail: string,
+  homeId: number,
+  scheduleId: string,
+): PersistedSchedule => {
+  const schedule = schedules.get(scheduleId);
+  if (
+    !schedule ||
+    schedule.homeId !== homeId ||
+    !isOwnedBy(schedule, ownerEmail)
+  ) {
+    throw new ScheduleError(`Schedule '${scheduleId}' not found.`, "NOT_FOUND");
+  }
+  return schedule;
+};
+
+export const listSchedules = (
+  ownerEmail: string,
+  homeId: number,
+): ScheduleRecord[] =>
+  Array.from(schedules.values())
+    .filter(
+      (schedule) =>
+        schedule.homeId === homeId && isOwnedBy(schedule, ownerEmail),
+    )
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map(toRecord);
+
+export const getSchedule = (
+  ownerEmail: string,
+  homeId: number,
+  scheduleId: string,
+): ScheduleRecord =>
+  toRecord(findOwnedSchedule(ownerEmail, homeId, scheduleId));
+
+export const createSchedule = (
+  ownerEmail: string,
+  homeId: number,
+  input: ScheduleChanges,
+  now = Date.now(),
+): ScheduleRecord => {
+  const schedule: PersistedSchedule = {
+    id: randomUUID(),
+    ownerEmail,
+    homeId,
+    deviceId: parseDeviceId(input.deviceId),
+    name: parseName(input.name),
+    enabled: input.enabled === undefined ? true : parseEnabled(input.enabled),
+    rule: parseRule(input.rule),
+    command: parseCommand(input.command),
+    nextRunAt: null,
+    lastRunAt: null,
+    createdAt: now,
+    updatedAt: now,
+    history: [],
+  };
+  assertSupportedCommand(schedule);
+  schedule.nextRunAt = computeNextRun(schedule, now);
+  assertFiresAgain(schedule);
+  schedules.set(schedule.id, schedule);
+  store.save(schedule);
+  return toRecord(schedule);
+};
+
+export const updateSchedule = (
+  ownerEmail: string,
+  homeId: number,
+  scheduleId: string,
+  changes: ScheduleChanges,
+  now = Date.now(),
+): ScheduleRecord => {
+  const schedule = findOwnedSchedule(ownerEmail, homeId, scheduleId);
+  const updated: PersistedSchedule = {
+    ...schedule,
+    deviceId:
+      changes.deviceId === undefined
+        ? schedule.deviceId
+        : parseDeviceId(changes.deviceId),
+    name: changes.name === undefined ? schedule.name : parseName(changes.name),
+    enabled:
+      changes.enabled === undefined
+        ? schedule.enabled
+        : parseEnabled(changes.enabled),
+    rule: changes.rule === undefined ? schedule.rule : parseRule(changes.rule),
+    command:
+      changes.command === undefined
+        ? schedule.command
+        : parseCommand(changes.command),
+    updatedAt: now,
+  };
+  if (changes.deviceId !== undefined || changes.command !== undefined) {
+    assertSupportedCommand(updated);
+  }
+  updated.nextRunAt = computeNextRun(updated, now);
+  assertFiresAgain(updated);
+  schedules.set(updated.id, updated);
+  store.save(updated);
+  return toRecord(updated);
+};
+
+export const deleteSchedule = (
+  ownerEmail: string,
+  homeId: number,
+  scheduleId: string,
+): void => {
+  findOwnedSchedule(ownerEmail, homeId, scheduleId);
+  schedules.delete(scheduleId);
+  store.remove(scheduleId);
+};
+
+/**
+ * Sets the home's timezone for the user and moves their schedules' next runs
+ * to match.
+ */
+export const setHomeTimezone = (
+  ownerEmail: string,
+  homeId: number,
+  timezone: string,
+  now = Date.now(),
+): void => {
+  if (!isValidTimezone(timezone)) {
+    throw new ScheduleError(
+      `Unknown timezone '${timezone}'.`,
+      "INVALID_SCHEDULE",
+    );
+  }
+  const key = buildTimezoneKey(ownerEmail, homeId);
+  timezones.set(key, timezone);
+  store.saveTimezone(key, timezone);
+  for (const schedule of schedules.values()) {
+    if (schedule.homeId === homeId && isOwnedBy(schedule, ownerEmail)) {
+      schedule.nextRunAt = computeNextRun(schedule, now);
+      store.save(schedule);
+    }
+  }
+};
+
+const recordRun = (
+  schedule: PersistedSchedule,
+  execution: ScheduleExecution,
+): void => {
+  schedule.history = [execution, ...schedule.history].slice(0, HISTORY_LIMIT);
+  schedule.lastRunAt = execution.firedAt;
+  schedule.nextRunAt = computeNextRun(schedule, execution.firedAt);
+  schedule.updatedAt = execution.firedAt;
+  store.save(schedule);
+  broadcastEvent(
+    "schedule-run",
+    {
+      scheduleId: schedule.id,
+      homeId: schedule.homeId,
+      deviceId: schedule.deviceId,
+      ...execution,
+    },
+    { email: schedule.ownerEmail, homeId: schedule.homeId },
+  );
+};
+
+const fireSchedule = (
+  schedule: PersistedSchedule,
+  scheduledFor: number,
+  now: number,
+  resolveCredentials: SchedulerOptions["resolveCredentials"],
+  log: Logger,
+): ScheduleExecution => {
+  const runLog = log.child({
+    scheduleId: schedule.id,
+    homeId: schedule.homeId,
+    deviceId: schedule.deviceId,
+  });
+
+  // Runs missed while the server was down are skipped, not replayed late.
+  if (now - scheduledFor > resolveMisfireGrace()) {
+    runLog.warn({ scheduledFor }, "Skipping missed schedule run");
+    return {
+      scheduledFor,
+      firedAt: now,
+      outcome: "missed",
+      jobId: null,
+      error: "The server was not running at the scheduled time.",
+    };
+  }
+
+  const credentials = resolveCredentials(schedule.ownerEmail);
+  if (!credentials) {
+    runLog.warn("No usable credentials for the schedule owner");
+    return {
+      scheduledFor,
+      firedAt: now,
+      outcome: "skipped",
+      jobId: null,
+      error: "The owner has no active session with valid BGH credentials.",
+    };
+  }
+
+  const unsupported = findUnsupportedCommand(schedule);
+  if (unsupported) {
+    runLog.warn({ ...schedule.command }, unsupported);
+    return {
+      scheduledFor,
+      firedAt: now,
+      outcome: "skipped",
+      jobId: null,
+      error: unsupported,
+    };
+  }
+
+  const { jobId } = enqueueCommand({
+    credentials,
+    homeId: schedule.homeId,
+    deviceId: schedule.deviceId,
+    payload: { ...schedule.command },
+    log: runLog,
+  });
+  runLog.info({ jobId, scheduledFor }, "Schedule fired");
+  return { scheduledFor, firedAt: now, outcome: "queued", jobId, error: null };
+};
+
+/**
+ * Fires every enabled schedule whose next run is due at `now`. Returns how
+ * many schedules ran.
+ */
+export const runDueSchedules = ({
+  resolveCredentials,
+  log,
+  clock = systemClock,
+}: SchedulerOptions): number => {
+  const now = clock.now();
+  const tickLog = log ?? schedulerLog;
+  let fired = 0;
+  for (const schedule of schedules.values()) {
+    if (
+      !schedule.enabled ||
+      schedule.nextRunAt === null ||
+      schedule.nextRunAt > now
+    ) {
+      continue;
+    }
+    const execution = fireSchedule(
+      schedule,
+      schedule.nextRunAt,
+      now,
+      resolveCredentials,
+      tickLog,
+    );
+    recordRun(schedule, execution);
+    fired += 1;
+  }
+  return fired;
+};
+
+/**
+ * Starts the scheduler loop. Returns a function that stops it.
+ */
+export const startScheduler = (options: SchedulerOptions): (() => void) => {
+  const timer = setInterval(() => {
+    try {
+      runDueSchedules(options);
+    } catch (error) {
+      (options.log ?? schedulerLog).error(
+        { err: error },
+        "Scheduler tick failed",
+      );
+    }
+  }, TICK_INTERVAL_MS);
+  timer.unref();
+  return () => clearInterval(timer);
+};
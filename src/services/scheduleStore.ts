@@ -0,0 +1,150 @@
+import logger from "../logger";
+import {
+  moveFileAside,
+  readJsonFile,
+  resolveDataPath,
+  writeJsonFile,
+} from "./persistence";
+import type { PersistedSchedule } from "./scheduleService";
+
+/** Everything the scheduler keeps across restarts. */
+export interface ScheduleStoreState {
+  schedules: PersistedSchedule[];
+  /** IANA timezone per user and home, keyed by `email:homeId`. */
+  timezones: Record<string, string>;
+}
+
+export interface ScheduleStore {
+  load(): ScheduleStoreState;
+  save(schedule: PersistedSchedule): void;
+  remove(scheduleId: string): void;
+  saveTimezone(key: string, timezone: string): void;
+}
+
+const STORE_PATH_ENV_KEY = "SCHEDULE_STORE_PATH";
+
+const storeLog = logger.child({ service: "scheduleStore" });
+
+export class MemoryScheduleStore implements ScheduleStore {
+  private readonly schedules = new Map<string, PersistedSchedule>();
+  private readonly timezones = new Map<string, string>();
+
+  load(): ScheduleStoreState {
+    return {
+      schedules: Array.from(this.schedules.values()),
+      timezones: Object.fromEntries(this.timezones),
+    };
+  }
+
+  save(schedule: PersistedSchedule): void {
+    this.schedules.set(schedule.id, schedule);
+  }
+
+  remove(scheduleId: string): void {
+    this.schedules.delete(scheduleId);
+  }
+
+  saveTimezone(key: string, timezone: string): void {
+    this.timezones.set(key, timezone);
+  }
+}
+
+/**
+ * Keeps schedules and home timezones in a single JSON document, rewritten on
+ * each change. Schedules change rarely, so this stays cheap.
+ */
+export class FileScheduleStore implements ScheduleStore {
+  private readonly schedules = new Map<string, PersistedSchedule>();
+  private readonly timezones = new Map<string, string>();
+
+  constructor(private readonly filePath: string) {
+    const persisted = this.readPersisted();
+    for (const schedule of persisted.schedules) {
+      this.schedules.set(schedule.id, schedule);
+    }
+    for (const [key, timezone] of Object.entries(persisted.timezones)) {
+      this.timezones.set(key, timezone);
+    }
+  }
+
+  load(): ScheduleStoreState {
+    return {
+      schedules: Array.from(this.schedules.values()),
+      timezones: Object.fromEntries(this.timezones),
+    };
+  }
+
+  save(schedule: PersistedSchedule): void {
+    this.schedules.set(schedule.id, schedule);
+    this.flush();
+  }
+
+  remove(scheduleId: string): void {
+    if (this.schedules.delete(scheduleId)) {
+      this.flush();
+    }
+  }
+
+  saveTimezone(key: string, timezone: string): void {
+    this.timezones.set(key, timezone);
+    this.flush();
+  }
+
+  // An unreadable file must not keep the server from starting: it is moved
+  // aside for inspection and the scheduler starts without schedules.
+  private readPersisted(): ScheduleStoreState {
+    try {
+      const persisted = readJsonFile<Partial<ScheduleStoreState> | null>(
+        this.filePath,
+        {},
+      );
+      if (
+        typeof persisted !== "object" ||
+        persisted === null ||
+        Array.isArray(persisted) ||
+        !Array.isArray(persisted.schedules ?? [])
+      ) {
+        throw new Error("Expected schedules and timezones");
+      }
+      return {
+        schedules: persisted.schedules ?? [],
+        timezones: persisted.timezones ?? {},
+      };
+    } catch (error) {
+      const movedTo = moveFileAside(this.filePath);
+      storeLog.error(
+        { err: error, filePath: this.filePath, movedTo },
+        "Discarding unreadable schedule file",
+      );
+      return { schedules: [], timezones: {} };
+    }
+  }
+
+  private flush(): void {
+    try {
+      writeJsonFile(this.filePath, this.load());
+    } catch (error) {
+      storeLog.error(
+        { err: error, filePath: this.filePath },
+        "Failed to persist schedules",
+      );
+    }
+  }
+}
+
+/**
+ * Schedules are kept in the file named by `SCHEDULE_STORE_PATH`. Without it
+ * they only live in memory and are lost when the server restarts.
+ */
+export const createScheduleStore = (): ScheduleStore => {
+  const filePath = resolveDataPath(STORE_PATH_ENV_KEY);
+  if (!filePath) {
+    storeLog.warn(
+      { envKey: STORE_PATH_ENV_KEY },
+      "Schedules are kept in memory only and will be lost on restart",
+    );
+    return new MemoryScheduleStore();
+  }
+  storeLog.info({ filePath }, "Persisting schedules to file");
+  return new FileScheduleStore(filePath);
+};
@@ -0,0 +1,190 @@
+import { statSync } from "fs";
+import logger from "../logger";
+import type { Session } from "./authService";
+import { readJsonFile, resolveDataPath, writeJsonFile } from "./persistence";
+
+/**
+ * Storage behind the session helpers in authService. Methods are synchronous
+ * so `requireAuth` can keep resolving sessions without awaiting.
+ */
+export interface SessionStore {
+  get(token: string): Session | undefined;
+  set(session: Session): void;
+  /** Records activity-only changes that may be persisted lazily. */
+  touch(session: Session): void;
+  delete(token: string): void;
+  list(): Session[];
+}
+
+const STORE_PATH_ENV_KEY = "SESSION_STORE_PATH";
+const TOUCH_FLUSH_DELAY_MS = 5_000;
+
+const storeLog = logger.child({ service: "sessionStore" });
+
+export class MemorySessionStore implements SessionStore {
+  private readonly sessions = new Map<string, Session>();
+
+  get(token: string): Session | undefined {
+    return this.sessions.get(token);
+  }
+
+  set(session: Session): void {
+    this.sessions.set(session.token, session);
+  }
+
+  touch(_session: Session): void {
+    // Sessions are held by reference, nothing to persist.
+  }
+
+  delete(token: string): void {
+    this.sessions.delete(token);
+  }
+
+  list(): Session[] {
+    return Array.from(this.sessions.values());
+  }
+}
+
+/**
+ * Persists sessions to a JSON file so restarts keep users logged in. The file
+ * is reloaded when another process changes it, which lets a couple of local
+ * instances share it; it is not meant for heavy concurrent writes.
+ *
+ * Writes re-read the file and apply only this instance's changes on top, so
+ * a session revoked elsewhere is never brought back by a late touch here.
+ */
+export class FileSessionStore implements SessionStore {
+  private sessions = new Map<string, Session>();
+  private readonly changed = new Map<
+    string,
+    { session: Session; created: boolean }
+  >();
+  private readonly deleted = new Set<string>();
+  private loadedMtimeMs = -1;
+  private touchTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly filePath: string) {
+    this.reloadIfChanged();
+  }
+
+  get(token: string): Session | undefined {
+    this.reloadIfChanged();
+    return this.sessions.get(token);
+  }
+
+  set(session: Session): void {
+    this.reloadIfChanged();
+    this.recordChange(session, !this.sessions.has(session.token));
+    this.flush();
+  }
+
+  touch(session: Session): void {
+    if (!this.sessions.has(session.token)) {
+      return;
+    }
+    this.recordChange(session, false);
+    if (this.touchTimer) {
+      return;
+    }
+    this.touchTimer = setTimeout(() => {
+      this.touchTimer = null;
+      this.flush();
+    }, TOUCH_FLUSH_DELAY_MS);
+    this.touchTimer.unref();
+  }
+
+  delete(token: string): void {
+    this.reloadIfChanged();
+    if (this.sessions.delete(token)) {
+      this.changed.delete(token);
+      this.deleted.add(token);
+      this.flush();
+    }
+  }
+
+  list(): Session[] {
+    this.reloadIfChanged();
+    return Array.from(this.sessions.values());
+  }
+
+  private recordChange(session: Session, created: boolean): void {
+    const pending = this.changed.get(session.token);
+    this.changed.set(session.token, {
+      session,
+      created: created || pending?.created === true,
+    });
+    this.sessions.set(session.token, session);
+  }
+
+  private readMtime(): number | null {
+    try {
+      return statSync(this.filePath).mtimeMs;
+    } catch {
+      return null;
+    }
+  }
+
+  // Sessions this instance changed are only kept when they were created here
+  // or still exist in the file.
+  private readMerged(): Map<string, Session> {
+    const persisted = readJsonFile<Session[]>(this.filePath, []);
+    const merged = new Map(
+      persisted.map((session) => [session.token, session]),
+    );
+    for (const token of this.deleted) {
+      merged.delete(token);
+    }
+    for (const [token, { session, created }] of this.changed) {
+      if (created || merged.has(token)) {
+        merged.set(token, session);
+      } else {
+        this.changed.delete(token);
+      }
+    }
+    return merged;
+  }
+
+  private reloadIfChanged(): void {
+    const mtime = this.readMtime();
+    if (mtime === null || mtime === this.loadedMtimeMs) {
+      return;
+    }
+    try {
+      this.sessions = this.readMerged();
+      this.loadedMtimeMs = mtime;
+    } catch (error) {
+      storeLog.error(
+        { err: error, filePath: this.filePath },
+        "Failed to load sessions from file",
+      );
+    }
+  }
+
+  private flush(): void {
+    if (this.touchTimer) {
+      clearTimeout(this.touchTimer);
+      this.touchTimer = null;
+    }
+    try {
+      this.sessions = this.readMerged();
+      writeJsonFile(this.filePath, Array.from(this.sessions.values()));
+      this.changed.clear();
+      this.deleted.clear();
+      this.loadedMtimeMs = this.readMtime() ?? this.loadedMtimeMs;
+    } catch (error) {
+      storeLog.error(
+        { err: error, filePath: this.filePath },
+        "Failed to persist sessions",
+      );
+    }
+  }
+}
+
+export const createSessionStore = (): SessionStore => {
+  const filePath = resolveDataPath(STORE_PATH_ENV_KEY);
+  if (!filePath) {
+    return new MemorySessionStore();
+  }
+  storeLog.info({ filePath }, "Persisting sessions to file");
+  return new FileSessionStore(filePath);
+};
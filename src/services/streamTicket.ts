@@ -0,0 +1,78 @@
+import { randomBytes } from "crypto";
+import logger from "../logger";
+
+/**
+ * Single-use tickets that let `EventSource` open the event stream without
+ * putting the session token in the URL. A ticket only points at the session
+ * that requested it and is redeemed at most once.
+ */
+interface StreamTicket {
+  sessionToken: string;
+  expiresAt: number;
+}
+
+export interface IssuedStreamTicket {
+  ticket: string;
+  expiresAt: number;
+}
+
+const TICKET_TTL_ENV_KEY = "SSE_TICKET_TTL_MS";
+const DEFAULT_TICKET_TTL_MS = 30_000;
+
+const tickets = new Map<string, StreamTicket>();
+
+const ticketLog = logger.child({ service: "streamTicket" });
+
+export const resolveTicketTtl = (): number => {
+  const rawValue = process.env[TICKET_TTL_ENV_KEY];
+  if (!rawValue) {
+    return DEFAULT_TICKET_TTL_MS;
+  }
+  const parsed = Number(rawValue);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    ticketLog.warn(
+      { value: rawValue },
+      "Invalid stream ticket TTL, using default",
+    );
+    return DEFAULT_TICKET_TTL_MS;
+  }
+  return parsed;
+};
+
+const purgeExpiredTickets = (now: number): void => {
+  for (const [ticket, entry] of tickets) {
+    if (entry.expiresAt <= now) {
+      tickets.delete(ticket);
+    }
+  }
+};
+
+export const issueStreamTicket = (
+  sessionToken: string,
+  now = Date.now(),
+): IssuedStreamTicket => {
+  purgeExpiredTickets(now);
+  const ticket = randomBytes(24).toString("base64url");
+  const expiresAt = now + resolveTicketTtl();
+  tickets.set(ticket, { sessionToken, expiresAt });
+  return { ticket, expiresAt };
+};
+
+/**
+ * Consumes the ticket and returns the session token it was issued for, or
+ * null when it is unknown, already used or expired.
+ */
+export const redeemStreamTicket = (
+  ticket: string,
+  now = Date.now(),
+): string | null => {
+  const entry = tickets.get(ticket);
+  if (!entry) {
+    return null;
+  }
+  tickets.delete(ticket);
+  if (entry.expiresAt <= now) {
+    return null;
+  }
+  return entry.sessionToken;
+};
@@ -0,0 +1,89 @@
+import logger from "../logger";
+
+/**
+ * Process-wide cap on requests sent to the BGH cloud, shared by every pooled
+ * client. Callers over the budget are delayed rather than rejected, so a
+ * burst of user traffic turns into latency instead of upstream throttling.
+ * Once the wait would exceed the configured maximum they fail fast instead.
+ */
+const MAX_REQUESTS_PER_SECOND_ENV_KEY = "BGH_MAX_REQUESTS_PER_SECOND";
+const DEFAULT_MAX_REQUESTS_PER_SECOND = 10;
+const MAX_WAIT_ENV_KEY = "BGH_MAX_QUEUE_WAIT_MS";
+const DEFAULT_MAX_WAIT_MS = 5_000;
+const WINDOW_MS = 1_000;
+
+export class UpstreamBusyError extends Error {
+  constructor(public readonly retryAfterMs: number) {
+    super("Too many requests are waiting for the BGH API.");
+    this.name = "UpstreamBusyError";
+  }
+}
+
+/** Start times granted within the last window, in ascending order. */
+const grants: number[] = [];
+
+const limiterLog = logger.child({ service: "upstreamLimiter" });
+
+export const resolveMaxRequestsPerSecond = (): number => {
+  const rawValue = process.env[MAX_REQUESTS_PER_SECOND_ENV_KEY];
+  if (!rawValue) {
+    return DEFAULT_MAX_REQUESTS_PER_SECOND;
+  }
+  const parsed = Number(rawValue);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    limiterLog.warn(
+      { value: rawValue },
+      "Invalid upstream request budget, using default",
+    );
+    return DEFAULT_MAX_REQUESTS_PER_SECOND;
+  }
+  return parsed;
+};
+
+const resolveMaxWait = (): number => {
+  const rawValue = process.env[MAX_WAIT_ENV_KEY];
+  if (!rawValue) {
+    return DEFAULT_MAX_WAIT_MS;
+  }
+  const parsed = Number(rawValue);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    limiterLog.warn(
+      { value: rawValue },
+      "Invalid upstream queue wait, using default",
+    );
+    return DEFAULT_MAX_WAIT_MS;
+  }
+  return parsed;
+};
+
+/**
+ * Resolves once an upstream request may start without exceeding the budget
+ * for any one-second window. Rejects with `UpstreamBusyError` when that is
+ * further away than the maximum queue wait.
+ */
+export const acquireUpstreamSlot = async (): Promise<void> => {
+  const now = Date.now();
+  while (grants.length > 0 && grants[0] <= now - WINDOW_MS) {
+    grants.shift();
+  }
+
+  const limit = resolveMaxRequestsPerSecond();
+  const slot =
+    grants.length < limit
+      ? now
+      : Math.max(now, grants[grants.length - limit] + WINDOW_MS);
+  const delay = slot - now;
+  if (delay > resolveMaxWait()) {
+    limiterLog.warn(
+      { delayMs: delay },
+      "Rejecting upstream request, queue full",
+    );
+    throw new UpstreamBusyError(delay);
+  }
+  grants.push(slot);
+
+  if (delay > 0) {
+    limiterLog.debug({ delayMs: delay }, "Delaying upstream request");
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+};
@@ -0,0 +1,223 @@
+import express from "express";
+import request from "supertest";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import authRoutes from "../app/routes/authRoutes";
+import {
+  SESSION_COOKIE_NAME,
+  createSession,
+  getSession,
+} from "../src/services/authService";
+import { sealCredentials } from "../src/services/credentialVault";
+import { resetLoginThrottle } from "../src/services/loginThrottle";
+import {
+  issueStreamTicket,
+  redeemStreamTicket,
+} from "../src/services/streamTicket";
+import * as bghService from "../src/services/bghService";
+
+describe("Auth session routes", () => {
+  const createApp = () => {
+    const app = express();
+    app.use(express.json());
+    app.use("/api/auth", authRoutes);
+    return app;
+  };
+
+  const login = (email: string, userAgent = "test-agent") =>
+    createSession(sealCredentials(email, "secret"), { userAgent });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("lists the user's sessions without exposing tokens", async () => {
+    const current = login("list@example.com", "laptop");
+    const other = login("list@example.com", "phone");
+    login("someone-else@example.com");
+
+    const response = await request(createApp())
+      .get("/api/auth/sessions")
+      .set("Authorization", `Bearer ${current.token}`)
+      .expect(200);
+
+    const sessions = response.body.sessions as Array<Record<string, unknown>>;
+    expect(sessions.map((session) => session.id).sort()).toEqual(
+      [current.id, other.id].sort(),
+    );
+    expect(sessions.find((session) => session.current)).toMatchObject({
+      id: current.id,
+      userAgent: "laptop",
+    });
+    expect(JSON.stringify(response.body)).not.toContain(current.token);
+    expect(JSON.stringify(response.body)).not.toContain(other.token);
+  });
+
+  it("revokes only sessions owned by the caller", async () => {
+    const current = login("revoke@example.com");
+    const other = login("revoke@example.com");
+    const foreign = login("intruder@example.com");
+
+    await request(createApp())
+      .delete(`/api/auth/sessions/${foreign.id}`)
+      .set("Authorization", `Bearer ${current.token}`)
+      .expect(404);
+    expect(getSession(foreign.token)).not.toBeNull();
+
+    await request(createApp())
+      .delete(`/api/auth/sessions/${other.id}`)
+      .set("Authorization", `Bearer ${current.token}`)
+      .expect(204);
+    expect(getSession(other.token)).toBeNull();
+    expect(getSession(current.token)).not.toBeNull();
+  });
+
+  it("signs out of every session of the user", async () => {
+    const releaseMock = vi
+      .spyOn(bghService, "releaseClients")
+      .mockImplementation(() => undefined);
+    const current = login("all@example.com");
+    const other = login("all@example.com");
+    const foreign = login("bystander@example.com");
+
+    await request(createApp())
+      .post("/api/auth/logout-all")
+      .set("Authorization", `Bearer ${current.token}`)
+      .expect(204);
+
+    expect(getSession(current.token)).toBeNull();
+    expect(getSession(other.token)).toBeNull();
+    expect(getSession(foreign.token)).not.toBeNull();
+    expect(releaseMock).toHaveBeenCalledWith(
+      "all@example.com",
+      expect.anything(),
+    );
+  });
+
+  it("never slides a session past its absolute lifetime", () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.stubEnv("SESSION_IDLE_TIMEOUT_MS", "60000");
+    vi.stubEnv("SESSION_MAX_LIFETIME_MS", "90000");
+    const session = login("lifetime@example.com");
+
+    vi.advanceTimersByTime(50_000);
+    expect(getSession(session.token)?.expiresAt).toBe(
+      session.absoluteExpiresAt,
+    );
+
+    vi.advanceTimersByTime(40_000);
+    expect(getSession(session.token)).toBeNull();
+  });
+
+  it("reports the expiry and re-issues the cookie on /me", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.stubEnv("SESSION_IDLE_TIMEOUT_MS", "60000");
+    const session = login("me@example.com");
+
+    const response = await request(createApp())
+      .get("/api/auth/me")
+      .set("Cookie", `${SESSION_COOKIE_NAME}=${session.token}`)
+      .expect(200);
+
+    expect(response.body.session).toEqual({
+      expiresAt: session.expiresAt,
+      absoluteExpiresAt: session.absoluteExpiresAt,
+    });
+    const cookie = String(response.headers["set-cookie"]);
+    expect(cookie).toContain(`${SESSION_COOKIE_NAME}=${session.token}`);
+    expect(cookie).toMatch(/Max-Age=60\b/);
+  });
+
+  it("issues single-use event stream tickets", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const session = login("ticket@example.com");
+
+    const response = await request(createApp())
+      .post("/api/auth/stream-ticket")
+      .set("Authorization", `Bearer ${session.token}`)
+      .expect(201);
+
+    const { ticket, expiresAt } = response.body as {
+      ticket: string;
+      expiresAt: number;
+    };
+    expect(ticket).not.toBe(session.token);
+    expect(expiresAt).toBe(Date.now() + 30_000);
+    expect(redeemStreamTicket(ticket)).toBe(session.token);
+    expect(redeemStreamTicket(ticket)).toBeNull();
+  });
+
+  it("rejects stream tickets once they expire", () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const session = login("late@example.com");
+    const { ticket } = issueStreamTicket(session.token);
+
+    vi.advanceTimersByTime(30_001);
+
+    expect(redeemStreamTicket(ticket)).toBeNull();
+  });
+
+  it("answers 429 with Retry-After once a login is throttled", async () => {
+    resetLoginThrottle();
+    const validateMock = vi
+      .spyOn(bghService, "validateCredentials")
+      .mockRejectedValue(
+        new bghService.BGHServiceError(
+          "BGH authentication failed",
+          "AUTHENTICATION_ERROR",
+        ),
+      );
+    const app = createApp();
+    const attempt = () =>
+      request(app)
+        .post("/api/auth/login")
+        .send({ email: "brute@example.com", password: "guess" });
+
+    for (let index = 0; index < 6; index += 1) {
+      await attempt().expect(401);
+    }
+    const response = await attempt().expect(429);
+
+    expect(response.headers["retry-after"]).toBe("1");
+    expect(response.body).toMatchObject({ code: "TOO_MANY_ATTEMPTS" });
+    expect(validateMock).toHaveBeenCalledTimes(6);
+    resetLoginThrottle();
+  });
+
+  it("requires the CSRF token on cookie-authenticated mutations", async () => {
+    vi.spyOn(bghService, "releaseClients").mockImplementation(() => undefined);
+    const app = createApp();
+    const session = login("csrf@example.com");
+    const cookie = `${SESSION_COOKIE_NAME}=${session.token}`;
+
+    const me = await request(app).get("/api/auth/me").set("Cookie", cookie);
+    expect(me.body.csrfToken).toBe(session.csrfToken);
+
+    const rejected = await request(app)
+      .post("/api/auth/logout")
+      .set("Cookie", cookie)
+      .set("X-CSRF-Token", "forged")
+      .expect(403);
+    expect(rejected.body).toMatchObject({ code: "INVALID_CSRF_TOKEN" });
+    expect(getSession(session.token)).not.toBeNull();
+
+    await request(app)
+      .post("/api/auth/logout")
+      .set("Cookie", cookie)
+      .set("X-CSRF-Token", session.csrfToken)
+      .expect(204);
+    expect(getSession(session.token)).toBeNull();
+  });
+
+  it("does not require the CSRF token for bearer requests", async () => {
+    vi.spyOn(bghService, "releaseClients").mockImplementation(() => undefined);
+    const session = login("bearer-csrf@example.com");
+
+    await request(createApp())
+      .post("/api/auth/logout")
+      .set("Authorization", `Bearer ${session.token}`)
+      .expect(204);
+  });
+});
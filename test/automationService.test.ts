@@ -0,0 +1,258 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { DeviceStatus } from "../integrations/bgh";
+import {
+  AutomationError,
+  createAutomation,
+  getAutomation,
+  runAutomations,
+  setAutomationStore,
+  startAutomationEngine,
+} from "../src/services/automationService";
+import { MemoryAutomationStore } from "../src/services/automationStore";
+import * as commandQueue from "../src/services/commandQueue";
+import { sealCredentials } from "../src/services/credentialVault";
+import { clearCachedDevices, storeDevices } from "../src/services/deviceCache";
+import * as devicePoller from "../src/services/devicePoller";
+import { setHomeTimezone } from "../src/services/scheduleService";
+
+describe("automationService", () => {
+  const owner = "automations@example.com";
+  const credentials = sealCredentials(owner, "secret");
+  // 15:00 in the home, inside the 14:00-18:00 window.
+  const afternoon = Date.UTC(2026, 9, 19, 15, 0);
+  const minutes = (count: number) => count * 60_000;
+
+  const seedReading = (
+    temperature: number,
+    modeId: number,
+    at: number,
+    maxTemperature?: number,
+  ) =>
+    storeDevices(
+      owner,
+      1,
+      {
+        7: new DeviceStatus(
+          7,
+          "Living",
+          null,
+          null,
+          temperature,
+          24,
+          254,
+          modeId,
+          maxTemperature === undefined
+            ? []
+            : [{ ValueType: 20, Value: 24, MaxValue: maxTemperature }],
+          {},
+          {},
+        ),
+      },
+      at,
+    );
+
+  const evaluateAt = (now: number) =>
+    runAutomations({
+      resolveCredentials: () => credentials,
+      clock: { now: () => now },
+    });
+
+  const createHotAfternoonRule = () =>
+    createAutomation(owner, 1, {
+      deviceId: 7,
+      name: "Cool the living room on hot afternoons",
+      conditions: [
+        { type: "temperature", operator: "above", value: 27 },
+        { type: "mode", modes: ["off"] },
+        { type: "time", start: "14:00", end: "18:00" },
+      ],
+      action: { mode: "cool", targetTemperature: 24 },
+    });
+
+  beforeEach(() => {
+    setAutomationStore(new MemoryAutomationStore());
+    setHomeTimezone(owner, 1, "UTC");
+  });
+
+  afterEach(() => {
+    clearCachedDevices(owner);
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it("queues the action with the rule that triggered it", () => {
+    const enqueueMock = vi
+      .spyOn(commandQueue, "enqueueCommand")
+      .mockReturnValue({ jobId: "job-1", position: 1 });
+    const automation = createHotAfternoonRule();
+
+    seedReading(28, 0, afternoon);
+    expect(evaluateAt(afternoon)).toBe(1);
+
+    expect(enqueueMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        homeId: 1,
+        deviceId: 7,
+        payload: { mode: "cool", targetTemperature: 24 },
+        origin: { type: "automation", id: automation.id },
+      }),
+    );
+    expect(getAutomation(owner, 1, automation.id)).toMatchObject({
+      armed: false,
+      lastTriggeredAt: afternoon,
+      history: [
+        {
+          triggeredAt: afternoon,
+          outcome: "queued",
+          jobId: "job-1",
+          temperature: 28,
+          error: null,
+        },
+      ],
+    });
+  });
+
+  it("waits for the hysteresis margin and the cooldown before firing again", () => {
+    const enqueueMock = vi
+      .spyOn(commandQueue, "enqueueCommand")
+      .mockReturnValue({ jobId: "job", position: 1 });
+    const automation = createHotAfternoonRule();
+
+    seedReading(28, 0, afternoon);
+    evaluateAt(afternoon);
+
+    seedReading(26.5, 0, afternoon + minutes(1));
+    evaluateAt(afternoon + minutes(1));
+    expect(getAutomation(owner, 1, automation.id).armed).toBe(false);
+
+    seedReading(26, 0, afternoon + minutes(2));
+    evaluateAt(afternoon + minutes(2));
+    expect(getAutomation(owner, 1, automation.id).armed).toBe(true);
+
+    seedReading(28, 0, afternoon + minutes(3));
+    expect(evaluateAt(afternoon + minutes(3))).toBe(0);
+
+    seedReading(28, 0, afternoon + minutes(16));
+    expect(evaluateAt(afternoon + minutes(16))).toBe(1);
+    expect(enqueueMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("ignores stale readings, the wrong mode and times outside the window", () => {
+    const enqueueMock = vi.spyOn(commandQueue, "enqueueCommand");
+    createHotAfternoonRule();
+    const evening = Date.UTC(2026, 9, 19, 19, 0);
+
+    seedReading(28, 0, evening);
+    expect(evaluateAt(evening)).toBe(0);
+    seedReading(28, 1, afternoon);
+    expect(evaluateAt(afternoon)).toBe(0);
+    expect(evaluateAt(afternoon + minutes(1))).toBe(0);
+
+    expect(enqueueMock).not.toHaveBeenCalled();
+  });
+
+  it("records a skipped trigger and fires once credentials return", () => {
+    const enqueueMock = vi
+      .spyOn(commandQueue, "enqueueCommand")
+      .mockReturnValue({ jobId: "job-1", position: 1 });
+    const automation = createHotAfternoonRule();
+    const withoutCredentials = (now: number) =>
+      runAutomations({
+        resolveCredentials: () => null,
+        clock: { now: () => now },
+      });
+
+    seedReading(28, 0, afternoon);
+    withoutCredentials(afternoon);
+    withoutCredentials(afternoon + minutes(1));
+
+    expect(enqueueMock).not.toHaveBeenCalled();
+    expect(getAutomation(owner, 1, automation.id)).toMatchObject({
+      armed: true,
+      lastTriggeredAt: null,
+      history: [{ outcome: "skipped", jobId: null }],
+    });
+
+    seedReading(28, 0, afternoon + minutes(2));
+    expect(evaluateAt(afternoon + minutes(2))).toBe(1);
+    expect(enqueueMock).toHaveBeenCalledTimes(1);
+    expect(getAutomation(owner, 1, automation.id).history[0]).toMatchObject({
+      outcome: "queued",
+      jobId: "job-1",
+    });
+  });
+
+  it("renews the home watch when the owner signs in again", async () => {
+    vi.useFakeTimers();
+    vi.spyOn(commandQueue, "enqueueCommand").mockReturnValue({
+      jobId: "job-1",
+      position: 1,
+    });
+    const unwatch = vi.fn();
+    const watchHome = vi
+      .spyOn(devicePoller, "watchHome")
+      .mockReturnValue(unwatch);
+    createHotAfternoonRule();
+    let current = credentials;
+    const stop = startAutomationEngine({
+      resolveCredentials: () => current,
+      clock: { now: () => afternoon },
+    });
+
+    await vi.advanceTimersByTimeAsync(15_000);
+    await vi.advanceTimersByTimeAsync(15_000);
+    expect(watchHome).toHaveBeenCalledTimes(1);
+
+    current = sealCredentials(owner, "changed");
+    await vi.advanceTimersByTimeAsync(15_000);
+    stop();
+
+    expect(watchHome).toHaveBeenCalledTimes(2);
+    expect(watchHome).toHaveBeenLastCalledWith(current, 1, expect.anything());
+    expect(unwatch).toHaveBeenCalledTimes(2);
+  });
+
+  it("rejects actions the device does not support", () => {
+    seedReading(25, 0, afternoon, 22);
+
+    expect(() => createHotAfternoonRule()).toThrow(
+      "Target temperature must be at most 22.",
+    );
+  });
+
+  it("skips a trigger the device no longer supports", () => {
+    const enqueueMock = vi.spyOn(commandQueue, "enqueueCommand");
+    seedReading(25, 0, afternoon);
+    const automation = createHotAfternoonRule();
+
+    seedReading(28, 0, afternoon, 22);
+    expect(evaluateAt(afternoon)).toBe(1);
+
+    expect(enqueueMock).not.toHaveBeenCalled();
+    expect(getAutomation(owner, 1, automation.id)).toMatchObject({
+      armed: false,
+      history: [
+        { outcome: "skipped", error: "Target temperature must be at most 22." },
+      ],
+    });
+  });
+
+  it("rejects malformed conditions", () => {
+    const create = (conditions: unknown) => () =>
+      createAutomation(owner, 1, {
+        deviceId: 7,
+        conditions,
+        action: { mode: "cool", targetTemperature: 24 },
+      });
+
+    expect(create([])).toThrow(AutomationError);
+    expect(create([{ type: "temperature", operator: ">", value: 27 }])).toThrow(
+      AutomationError,
+    );
+    expect(create([{ type: "time", start: "14:00", end: "14:00" }])).toThrow(
+      AutomationError,
+    );
+    expect(create([{ type: "humidity" }])).toThrow(AutomationError);
+  });
+});
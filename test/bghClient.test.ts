@@ -0,0 +1,296 @@
+import {
+  AxiosError,
+  type AxiosInstance,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from "axios";
+import { describe, expect, it, vi } from "vitest";
+
+import {
+  BGHApiError,
+  BGHAuthenticationError,
+  BGHClient,
+  LOGIN_ENDPOINT,
+  deriveCapabilities,
+} from "../integrations/bgh";
+
+const buildResponse = (status: number, data: unknown): AxiosResponse => ({
+  status,
+  statusText: String(status),
+  data,
+  headers: {},
+  config: { headers: {} } as InternalAxiosRequestConfig,
+});
+
+const buildHttpError = (status: number): AxiosError =>
+  new AxiosError(
+    `Request failed with status code ${status}`,
+    "ERR_BAD_REQUEST",
+    undefined,
+    undefined,
+    buildResponse(status, {}),
+  );
+
+type PostHandler = (url: string, body: Record<string, unknown>) => unknown;
+
+const createHttpClient = (handler: PostHandler) => {
+  const post = vi.fn(async (url: string, body: Record<string, unknown>) =>
+    handler(url, body),
+  );
+  return { post, httpClient: { post } as unknown as AxiosInstance };
+};
+
+describe("BGHClient", () => {
+  it("logs in again and replays the request when the token expired", async () => {
+    let logins = 0;
+    const { post, httpClient } = createHttpClient((url, body) => {
+      if (url === LOGIN_ENDPOINT) {
+        logins += 1;
+        return buildResponse(200, { d: `token-${logins}` });
+      }
+      const token = (body.token as { Token: string }).Token;
+      if (token === "token-1") {
+        throw buildHttpError(401);
+      }
+      return buildResponse(200, { EnumHomesResult: { Homes: [{ id: 1 }] } });
+    });
+
+    const client = new BGHClient("user@example.com", "secret", { httpClient });
+    const homes = await client.listHomes();
+
+    expect(homes).toEqual([{ id: 1 }]);
+    expect(logins).toBe(2);
+    expect(post).toHaveBeenCalledTimes(4);
+  });
+
+  it("shares a single login between concurrent expired requests", async () => {
+    let logins = 0;
+    const { httpClient } = createHttpClient((url, body) => {
+      if (url === LOGIN_ENDPOINT) {
+        logins += 1;
+        return buildResponse(200, { d: `token-${logins}` });
+      }
+      const token = (body.token as { Token: string }).Token;
+      if (token === "token-1") {
+        throw buildHttpError(401);
+      }
+      return buildResponse(200, { EnumHomesResult: { Homes: [] } });
+    });
+
+    const client = new BGHClient("user@example.com", "secret", { httpClient });
+    await Promise.all([client.listHomes(), client.listHomes()]);
+
+    expect(logins).toBe(2);
+  });
+
+  it("raises an authentication error when the fresh login is rejected", async () => {
+    let logins = 0;
+    const { httpClient } = createHttpClient((url) => {
+      if (url === LOGIN_ENDPOINT) {
+        logins += 1;
+        if (logins > 1) {
+          throw buildHttpError(401);
+        }
+        return buildResponse(200, { d: "token-1" });
+      }
+      throw buildHttpError(401);
+    });
+
+    const client = new BGHClient("user@example.com", "secret", { httpClient });
+
+    await expect(client.listHomes()).rejects.toBeInstanceOf(
+      BGHAuthenticationError,
+    );
+    expect(logins).toBe(2);
+  });
+
+  it("raises an authentication error when the replay is still rejected", async () => {
+    const { post, httpClient } = createHttpClient((url) => {
+      if (url === LOGIN_ENDPOINT) {
+        return buildResponse(200, { d: "token" });
+      }
+      throw buildHttpError(403);
+    });
+
+    const client = new BGHClient("user@example.com", "secret", { httpClient });
+
+    await expect(client.listHomes()).rejects.toBeInstanceOf(
+      BGHAuthenticationError,
+    );
+    expect(post).toHaveBeenCalledTimes(4);
+  });
+
+  it("logs in again after the first login failed", async () => {
+    let logins = 0;
+    const { httpClient } = createHttpClient((url) => {
+      if (url === LOGIN_ENDPOINT) {
+        logins += 1;
+        if (logins === 1) {
+          throw new AxiosError("timeout of 10000ms exceeded", "ECONNABORTED");
+        }
+        return buildResponse(200, { d: "token" });
+      }
+      return buildResponse(200, { EnumHomesResult: { Homes: [{ id: 1 }] } });
+    });
+
+    const client = new BGHClient("user@example.com", "secret", { httpClient });
+
+    await expect(client.listHomes()).rejects.toThrow(/timeout/);
+    await expect(client.listHomes()).resolves.toEqual([{ id: 1 }]);
+    expect(logins).toBe(2);
+  });
+
+  it("reports upstream failures during login as API errors", async () => {
+    const { httpClient } = createHttpClient((url) => {
+      if (url === LOGIN_ENDPOINT) {
+        throw buildHttpError(503);
+      }
+      return buildResponse(200, { EnumHomesResult: { Homes: [] } });
+    });
+
+    const client = new BGHClient("user@example.com", "secret", { httpClient });
+    const failure = await client.listHomes().catch((error: unknown) => error);
+
+    expect(failure).toBeInstanceOf(BGHApiError);
+    expect(failure).not.toBeInstanceOf(BGHAuthenticationError);
+  });
+
+  it("does not retry requests that fail for other reasons", async () => {
+    const { post, httpClient } = createHttpClient((url) => {
+      if (url === LOGIN_ENDPOINT) {
+        return buildResponse(200, { d: "token" });
+      }
+      throw buildHttpError(500);
+    });
+
+    const client = new BGHClient("user@example.com", "secret", { httpClient });
+
+    await expect(client.listHomes()).rejects.toThrow(/status 500/);
+    await expect(client.listHomes()).rejects.not.toBeInstanceOf(
+      BGHAuthenticationError,
+    );
+    expect(post).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe("BGHClient incremental sync", () => {
+  const temperatureValue = (value: number) => ({ ValueType: 13, Value: value });
+
+  it("requests deltas with the last serials and merges them", async () => {
+    const sentSerials: unknown[] = [];
+    const packets = [
+      {
+        Endpoints: [
+          { EndpointID: 1, Description: "Living" },
+          { EndpointID: 2, Description: "Bedroom" },
+        ],
+        EndpointValues: [
+          { Values: [temperatureValue(24)] },
+          { Values: [temperatureValue(22)] },
+        ],
+        Devices: [{ DeviceModel: "A" }, { DeviceModel: "B" }],
+        NewSerials: { Endpoints: 5, EndpointValues: 10 },
+      },
+      {
+        Endpoints: [{ EndpointID: 1, Description: "Living room" }],
+        EndpointValues: [
+          { Values: [temperatureValue(30)] },
+          { EndpointID: 2, Values: [temperatureValue(26)] },
+        ],
+        NewSerials: { Endpoints: 5, EndpointValues: 11 },
+      },
+    ];
+
+    const { httpClient } = createHttpClient((url, body) => {
+      if (url === LOGIN_ENDPOINT) {
+        return buildResponse(200, { d: "token" });
+      }
+      sentSerials.push(body.serials);
+      return buildResponse(200, { GetDataPacketResult: packets.shift() });
+    });
+
+    const client = new BGHClient("user@example.com", "secret", { httpClient });
+    const initial = await client.getChangesSince(99);
+    const delta = await client.getChangesSince(99, initial.cursor);
+
+    expect(initial.full).toBe(true);
+    expect(Object.keys(initial.devices)).toEqual(["1", "2"]);
+    expect(initial.devices[1].temperature).toBe(24);
+    expect(initial.devices[2].model).toBe("B");
+    expect(sentSerials[1]).toMatchObject({ Endpoints: 5, EndpointValues: 10 });
+    expect(delta.full).toBe(false);
+    expect(Object.keys(delta.devices)).toEqual(["1", "2"]);
+    expect(delta.devices[1].deviceName).toBe("Living room");
+    expect(delta.devices[1].temperature).toBe(24);
+    expect(delta.devices[2].temperature).toBe(26);
+    expect(delta.devices[2].model).toBe("B");
+    expect(delta.cursor).not.toBe(initial.cursor);
+  });
+
+  it("keeps the home's scenes from full and delta packets", async () => {
+    const packets = [
+      {
+        Scenes: [
+          { SceneID: 3, Description: "Night" },
+          { SceneID: 1, Description: "Away" },
+        ],
+        NewSerials: { Scenes: 4 },
+      },
+      {
+        Scenes: [{ SceneID: 3, Description: "Sleep" }],
+        NewSerials: { Scenes: 5 },
+      },
+    ];
+
+    const { httpClient } = createHttpClient((url) => {
+      if (url === LOGIN_ENDPOINT) {
+        return buildResponse(200, { d: "token" });
+      }
+      return buildResponse(200, { GetDataPacketResult: packets.shift() });
+    });
+
+    const client = new BGHClient("user@example.com", "secret", { httpClient });
+    const initial = await client.getScenes(99);
+    const updated = await client.getScenes(99);
+
+    expect(initial.map(({ sceneId, name }) => ({ sceneId, name }))).toEqual([
+      { sceneId: 1, name: "Away" },
+      { sceneId: 3, name: "Night" },
+    ]);
+    expect(updated.map(({ name }) => name)).toEqual(["Away", "Sleep"]);
+  });
+});
+
+describe("deriveCapabilities", () => {
+  it("reads supported modes, fan speeds and setpoint range from values", () => {
+    const capabilities = deriveCapabilities([
+      { ValueType: 14, Value: 1, AllowedValues: [0, 1, 3] },
+      {
+        ValueType: 15,
+        Value: 2,
+        AllowedValues: [{ Value: 1 }, { Value: 2 }],
+      },
+      { ValueType: 20, Value: 24, MinValue: 18, MaxValue: 28, Step: 0.5 },
+    ]);
+
+    expect(capabilities).toEqual({
+      modes: ["off", "cool", "dry"],
+      fanSpeeds: ["low", "mid"],
+      temperature: { min: 18, max: 28, step: 0.5 },
+    });
+  });
+
+  it("does not enforce anything the unit does not report", () => {
+    const capabilities = deriveCapabilities([
+      { ValueType: 20, Value: 24, MaxValue: 26 },
+    ]);
+
+    expect(capabilities.modes).toBeNull();
+    expect(capabilities.fanSpeeds).toBeNull();
+    expect(capabilities.temperature).toEqual({
+      min: null,
+      max: 26,
+      step: null,
+    });
+  });
+});
@@ -3,8 +3,12 @@ import request from "supertest";
 import { afterEach, describe, expect, it, vi } from "vitest";
 
 import bghRoutes from "../app/routes/bghRoutes";
+import { createSession } from "../src/services/authService";
+import { sealCredentials } from "../src/services/credentialVault";
+import { issueStreamTicket } from "../src/services/streamTicket";
 import * as bghService from "../src/services/bghService";
-import type { HomeSummary } from "../integrations/bgh";
+import { rememberActiveStates } from "../src/services/deviceMemory";
+import { DeviceStatus, type HomeSummary } from "../integrations/bgh";
 
 describe("BGH routes", () => {
   const createApp = () => {
@@ -28,6 +32,7 @@ describe("BGH routes", () => {
   };
 
   afterEach(() => {
+    vi.unstubAllEnvs();
     vi.restoreAllMocks();
   });
 
@@ -108,4 +113,445 @@ describe("BGH routes", () => {
       flags: undefined,
     });
   });
+
+  describe("command jobs", () => {
+    const bearer = (email: string): string =>
+      `Bearer ${createSession(sealCredentials(email, "secret")).token}`;
+
+    const mockSuccessfulCommand = () => {
+      vi.spyOn(bghService, "setDeviceMode").mockResolvedValue({});
+      vi.spyOn(bghService, "getDeviceStatus").mockResolvedValue(
+        new DeviceStatus(7, "Living", null, null, 24, 21, 254, 1, [], {}, {}),
+      );
+    };
+
+    it("returns the status of the caller's own jobs", async () => {
+      mockSuccessfulCommand();
+      const owner = bearer("owner@example.com");
+      const app = createApp();
+
+      const queued = await request(app)
+        .post("/api/bgh/devices/7/mode")
+        .set("Authorization", owner)
+        .send({ homeId: 1, mode: "cool", targetTemperature: 21 })
+        .expect(202);
+
+      const response = await request(app)
+        .get(`/api/bgh/commands/${queued.body.jobId}`)
+        .set("Authorization", owner)
+        .expect(200);
+
+      expect(response.body.job).toMatchObject({
+        id: queued.body.jobId,
+        homeId: 1,
+        deviceId: 7,
+      });
+      expect(response.body.job).not.toHaveProperty("credentials");
+    });
+
+    it("hides jobs that belong to another user", async () => {
+      mockSuccessfulCommand();
+      const app = createApp();
+
+      const queued = await request(app)
+        .post("/api/bgh/devices/7/mode")
+        .set("Authorization", bearer("owner@example.com"))
+        .send({ homeId: 1, mode: "cool", targetTemperature: 21 })
+        .expect(202);
+
+      const intruder = bearer("intruder@example.com");
+      await request(app)
+        .get(`/api/bgh/commands/${queued.body.jobId}`)
+        .set("Authorization", intruder)
+        .expect(404);
+
+      const listing = await request(app)
+        .get("/api/bgh/commands?deviceId=7")
+        .set("Authorization", intruder)
+        .expect(200);
+
+      expect(listing.body).toEqual({ jobs: [] });
+    });
+
+    it("fills fields missing from a partial update", async () => {
+      mockSuccessfulCommand();
+      const authorization = bearer("partial@example.com");
+      const app = createApp();
+
+      const queued = await request(app)
+        .patch("/api/bgh/homes/1/devices/7")
+        .set("Authorization", authorization)
+        .send({ fan: "auto" })
+        .expect(202);
+
+      const response = await request(app)
+        .get(`/api/bgh/commands/${queued.body.jobId}`)
+        .set("Authorization", authorization)
+        .expect(200);
+
+      expect(response.body.job.payload).toEqual({
+        mode: "no_change",
+        targetTemperature: 21,
+        fan: "auto",
+      });
+    });
+
+    it("rejects an empty partial update", async () => {
+      const response = await request(createApp())
+        .patch("/api/bgh/homes/1/devices/7")
+        .set("Authorization", bearer("partial@example.com"))
+        .send({})
+        .expect(400);
+
+      expect(response.body).toMatchObject({ code: "INVALID_BODY" });
+    });
+
+    it("powers a device back on in the mode it last ran in", async () => {
+      const deviceWith = (modeId: number, targetTemperature: number) =>
+        new DeviceStatus(
+          8,
+          "Office",
+          null,
+          null,
+          24,
+          targetTemperature,
+          1,
+          modeId,
+          [],
+          {},
+          {},
+        );
+      rememberActiveStates(1, { 8: deviceWith(2, 26) });
+      vi.spyOn(bghService, "setDeviceMode").mockResolvedValue({});
+      vi.spyOn(bghService, "getDeviceStatus")
+        .mockResolvedValueOnce(deviceWith(0, 20))
+        .mockResolvedValue(deviceWith(2, 26));
+      const authorization = bearer("power@example.com");
+      const app = createApp();
+
+      const queued = await request(app)
+        .post("/api/bgh/devices/8/power")
+        .set("Authorization", authorization)
+        .send({ homeId: 1, state: "toggle" })
+        .expect(202);
+
+      const response = await request(app)
+        .get(`/api/bgh/commands/${queued.body.jobId}`)
+        .set("Authorization", authorization)
+        .expect(200);
+
+      expect(response.body.job.payload).toEqual({
+        mode: "heat",
+        targetTemperature: 26,
+        fan: "low",
+      });
+    });
+
+    it("clamps temperature steps to the device range", async () => {
+      const deviceAt = (targetTemperature: number) =>
+        new DeviceStatus(
+          7,
+          "Living",
+          null,
+          null,
+          24,
+          targetTemperature,
+          254,
+          1,
+          [{ ValueType: 20, Value: targetTemperature, MinValue: 16 }],
+          {},
+          {},
+        );
+      vi.spyOn(bghService, "setDeviceMode").mockResolvedValue({});
+      vi.spyOn(bghService, "getDeviceStatus")
+        .mockResolvedValueOnce(deviceAt(21))
+        .mockResolvedValue(deviceAt(16));
+      const authorization = bearer("step@example.com");
+      const app = createApp();
+
+      const queued = await request(app)
+        .post("/api/bgh/devices/7/temperature/step")
+        .set("Authorization", authorization)
+        .send({ homeId: 1, delta: -10 })
+        .expect(202);
+
+      const response = await request(app)
+        .get(`/api/bgh/commands/${queued.body.jobId}`)
+        .set("Authorization", authorization)
+        .expect(200);
+
+      expect(response.body.job.payload).toMatchObject({
+        mode: "no_change",
+        targetTemperature: 16,
+      });
+    });
+
+    it("steps from the setpoint still waiting in the queue", async () => {
+      let current = 21;
+      let releaseFirst: () => void = () => {};
+      vi.spyOn(bghService, "setDeviceMode").mockImplementation(
+        async (_credentials, _deviceId, options) => {
+          if (current === 21) {
+            await new Promise<void>((resolve) => {
+              releaseFirst = resolve;
+            });
+          }
+          current = options.targetTemperature;
+          return {};
+        },
+      );
+      vi.spyOn(bghService, "getDeviceStatus").mockImplementation(
+        async () =>
+          new DeviceStatus(
+            9,
+            "Study",
+            null,
+            null,
+            24,
+            current,
+            254,
+            1,
+            [],
+            {},
+            {},
+          ),
+      );
+      const authorization = bearer("quick-steps@example.com");
+      const app = createApp();
+
+      await request(app)
+        .post("/api/bgh/devices/9/temperature/step")
+        .set("Authorization", authorization)
+        .send({ homeId: 1, delta: 1 })
+        .expect(202);
+      const second = await request(app)
+        .post("/api/bgh/devices/9/temperature/step")
+        .set("Authorization", authorization)
+        .send({ homeId: 1, delta: 1 })
+        .expect(202);
+      releaseFirst();
+
+      await vi.waitFor(async () => {
+        const response = await request(app)
+          .get(`/api/bgh/commands/${second.body.jobId}`)
+          .set("Authorization", authorization)
+          .expect(200);
+        expect(response.body.job).toMatchObject({
+          state: "completed",
+          payload: { targetTemperature: 23 },
+        });
+      });
+    });
+
+    it("rejects settings the device does not support", async () => {
+      vi.spyOn(bghService, "getDeviceStatus").mockResolvedValue(
+        new DeviceStatus(
+          7,
+          "Bedroom",
+          null,
+          null,
+          24,
+          21,
+          254,
+          1,
+          [
+            { ValueType: 14, Value: 1, AllowedValues: [0, 1] },
+            { ValueType: 20, Value: 21, MinValue: 18, MaxValue: 26 },
+          ],
+          {},
+          {},
+        ),
+      );
+      const setDeviceModeMock = vi.spyOn(bghService, "setDeviceMode");
+      const authorization = bearer("limited@example.com");
+      const app = createApp();
+
+      const heat = await request(app)
+        .post("/api/bgh/devices/7/mode")
+        .set("Authorization", authorization)
+        .send({ homeId: 1, mode: "heat", targetTemperature: 21 })
+        .expect(400);
+      const tooCold = await request(app)
+        .post("/api/bgh/devices/7/mode")
+        .set("Authorization", authorization)
+        .send({ homeId: 1, mode: "cool", targetTemperature: 16 })
+        .expect(400);
+
+      expect(heat.body).toMatchObject({ code: "UNSUPPORTED_SETTING" });
+      expect(tooCold.body.message).toContain("at least 18");
+      expect(setDeviceModeMock).not.toHaveBeenCalled();
+    });
+
+    it("applies a scene and reports every device in one run", async () => {
+      mockSuccessfulCommand();
+      vi.spyOn(bghService, "listDevices").mockResolvedValue({
+        7: new DeviceStatus(
+          7,
+          "Living",
+          null,
+          null,
+          24,
+          25,
+          254,
+          0,
+          [],
+          {},
+          {},
+        ),
+      });
+      const authorization = bearer("scenes@example.com");
+      const app = createApp();
+
+      const created = await request(app)
+        .post("/api/bgh/homes/1/scenes")
+        .set("Authorization", authorization)
+        .send({
+          name: "Cool everything down",
+          entries: [
+            { deviceId: 7, mode: "cool", targetTemperature: 21 },
+            { deviceId: 8, mode: "cool", targetTemperature: 21 },
+          ],
+        })
+        .expect(201);
+      const applied = await request(app)
+        .post(`/api/bgh/homes/1/scenes/${created.body.scene.id}/apply`)
+        .set("Authorization", authorization)
+        .expect(202);
+
+      expect(applied.body.run.devices[1]).toMatchObject({
+        deviceId: 8,
+        outcome: "failed",
+        error: "Device 8 not found for home 1.",
+      });
+      await vi.waitFor(async () => {
+        const run = await request(app)
+          .get(`/api/bgh/scene-runs/${applied.body.run.id}`)
+          .set("Authorization", authorization)
+          .expect(200);
+        expect(run.body.run.state).toBe("partial");
+      });
+      await request(app)
+        .post("/api/bgh/homes/1/scenes/unknown/apply")
+        .set("Authorization", authorization)
+        .expect(404);
+    });
+  });
+
+  it("blocks the session once BGH rejects its stored password", async () => {
+    const session = createSession(
+      sealCredentials("stale@example.com", "old-secret"),
+    );
+    const authorization = `Bearer ${session.token}`;
+    vi.spyOn(bghService, "listHomes").mockRejectedValue(
+      new bghService.BGHServiceError(
+        "BGH authentication failed",
+        "AUTHENTICATION_ERROR",
+      ),
+    );
+    const app = createApp();
+
+    const first = await request(app)
+      .get("/api/bgh/homes")
+      .set("Authorization", authorization)
+      .expect(401);
+    const second = await request(app)
+      .get("/api/bgh/homes")
+      .set("Authorization", authorization)
+      .expect(401);
+
+    expect(first.body.code).toBe("REAUTHENTICATION_REQUIRED");
+    expect(second.body.code).toBe("REAUTHENTICATION_REQUIRED");
+    expect(bghService.listHomes).toHaveBeenCalledTimes(1);
+    expect(JSON.stringify(session)).not.toContain("old-secret");
+  });
+
+  it("rejects session tokens passed in the query string", async () => {
+    const session = createSession(
+      sealCredentials("query@example.com", "secret"),
+    );
+    const listHomesMock = vi.spyOn(bghService, "listHomes");
+    const app = createApp();
+
+    await request(app).get(`/api/bgh/homes?token=${session.token}`).expect(401);
+    await request(app)
+      .get(`/api/bgh/events?token=${session.token}`)
+      .expect(401);
+    await request(app)
+      .get(`/api/bgh/events?ticket=${session.token}`)
+      .expect(401);
+
+    expect(listHomesMock).not.toHaveBeenCalled();
+  });
+
+  it("requires a home for the event stream", async () => {
+    const session = createSession(
+      sealCredentials("stream@example.com", "secret"),
+    );
+    const { ticket } = issueStreamTicket(session.token);
+
+    const response = await request(createApp())
+      .get(`/api/bgh/events?ticket=${ticket}`)
+      .expect(400);
+
+    expect(response.body).toMatchObject({ code: "INVALID_PARAMETER" });
+  });
+
+  it("keeps rule editing off the device command budget", async () => {
+    vi.stubEnv("API_COMMAND_RATE_LIMIT", "1");
+    const authorization = `Bearer ${
+      createSession(sealCredentials("editor@example.com", "secret")).token
+    }`;
+    const app = createApp();
+    const createScene = () =>
+      request(app)
+        .post("/api/bgh/homes/1/scenes")
+        .set("Authorization", authorization)
+        .send({
+          name: "Evening",
+          entries: [{ deviceId: 7, mode: "cool", targetTemperature: 24 }],
+        })
+        .expect(201);
+
+    await createScene();
+    const second = await createScene();
+
+    expect(second.headers["ratelimit-limit"]).toBe("60");
+  });
+
+  it("limits each session's reads and reports the budget", async () => {
+    vi.stubEnv("API_READ_RATE_LIMIT", "2");
+    vi.spyOn(bghService, "listHomes").mockResolvedValue([]);
+    const authorization = `Bearer ${
+      createSession(sealCredentials("busy@example.com", "secret")).token
+    }`;
+    const app = createApp();
+
+    const first = await request(app)
+      .get("/api/bgh/homes")
+      .set("Authorization", authorization)
+      .expect(200);
+    await request(app)
+      .get("/api/bgh/homes")
+      .set("Authorization", authorization)
+      .expect(200);
+    const limited = await request(app)
+      .get("/api/bgh/homes")
+      .set("Authorization", authorization)
+      .expect(429);
+
+    expect(first.headers["ratelimit-limit"]).toBe("2");
+    expect(first.headers["ratelimit-remaining"]).toBe("1");
+    expect(limited.headers["ratelimit-remaining"]).toBe("0");
+    expect(limited.headers["retry-after"]).toBeDefined();
+    expect(limited.body).toMatchObject({ code: "RATE_LIMITED" });
+    expect(bghService.listHomes).toHaveBeenCalledTimes(2);
+
+    await request(app)
+      .get("/api/bgh/homes")
+      .set(
+        "Authorization",
+        `Bearer ${createSession(sealCredentials("calm@example.com", "secret")).token}`,
+      )
+      .expect(200);
+  });
 });
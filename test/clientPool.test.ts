@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import type { BGHClient } from "../integrations/bgh";
+import {
+  acquireClient,
+  evictClient,
+  evictClientsForUser,
+  pooledClients,
+  purgeIdleClients,
+} from "../src/services/clientPool";
+
+const credentials = { email: "user@example.com", password: "secret" };
+
+const createFactory = () =>
+  vi.fn(() => ({ id: Math.random() }) as unknown as BGHClient);
+
+describe("clientPool", () => {
+  afterEach(() => {
+    evictClientsForUser("user@example.com");
+    evictClientsForUser("other@example.com");
+    vi.unstubAllEnvs();
+  });
+
+  it("reuses the client for the same credentials", () => {
+    const factory = createFactory();
+
+    const first = acquireClient(credentials, factory);
+    const second = acquireClient(
+      { email: "USER@example.com", password: "secret" },
+      factory,
+    );
+
+    expect(second).toBe(first);
+    expect(factory).toHaveBeenCalledTimes(1);
+    expect(pooledClients()).toBe(1);
+  });
+
+  it("creates a new client when the password changes", () => {
+    const factory = createFactory();
+
+    const first = acquireClient(credentials, factory);
+    const second = acquireClient(
+      { ...credentials, password: "changed" },
+      factory,
+    );
+
+    expect(second).not.toBe(first);
+    expect(pooledClients()).toBe(2);
+  });
+
+  it("evicts a single client or every client of a user", () => {
+    const factory = createFactory();
+    acquireClient(credentials, factory);
+    acquireClient({ ...credentials, password: "changed" }, factory);
+    acquireClient({ email: "other@example.com", password: "secret" }, factory);
+
+    expect(evictClient(credentials)).toBe(true);
+    expect(evictClient(credentials)).toBe(false);
+    expect(evictClientsForUser("User@Example.com")).toBe(1);
+    expect(pooledClients()).toBe(1);
+  });
+
+  it("purges clients idle for longer than the configured TTL", () => {
+    vi.stubEnv("BGH_CLIENT_IDLE_TTL_MS", "1000");
+    const factory = createFactory();
+    const first = acquireClient(credentials, factory);
+
+    expect(purgeIdleClients(Date.now() + 500)).toBe(0);
+    expect(purgeIdleClients(Date.now() + 1000)).toBe(1);
+    expect(acquireClient(credentials, factory)).not.toBe(first);
+    expect(factory).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,365 @@
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import pino from "pino";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { DeviceStatus } from "../integrations/bgh";
+import * as bghService from "../src/services/bghService";
+import {
+  FileCommandJobStore,
+  MemoryCommandJobStore,
+  type PersistedCommandJob,
+} from "../src/services/commandJobStore";
+import {
+  enqueueCommand,
+  getCommandJob,
+  restoreCommandQueue,
+  setCommandJobStore,
+  type CommandPayload,
+} from "../src/services/commandQueue";
+import { sealCredentials } from "../src/services/credentialVault";
+
+const log = pino({ level: "silent" });
+
+const deviceFor = (
+  deviceId: number,
+  targetTemperature: number,
+  fanSpeed: number = 254,
+) =>
+  new DeviceStatus(
+    deviceId,
+    `Device ${deviceId}`,
+    null,
+    null,
+    24,
+    targetTemperature,
+    fanSpeed,
+    1,
+    [],
+    {},
+    {},
+  );
+
+const enqueue = (
+  email: string,
+  deviceId: number,
+  payload: CommandPayload = { mode: "cool", targetTemperature: 22 },
+) =>
+  enqueueCommand({
+    credentials: sealCredentials(email, "secret"),
+    homeId: 1,
+    deviceId,
+    payload,
+    log,
+  });
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("command queue", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("keeps running other devices while one lane is slow", async () => {
+    let releaseSlowDevice: () => void = () => {};
+    vi.spyOn(bghService, "setDeviceMode").mockImplementation(
+      async (_credentials, deviceId) => {
+        if (deviceId === 101) {
+          await new Promise<void>((resolve) => {
+            releaseSlowDevice = resolve;
+          });
+        }
+        return {};
+      },
+    );
+    vi.spyOn(bghService, "getDeviceStatus").mockImplementation(
+      async (_credentials, _homeId, deviceId) => deviceFor(deviceId, 22),
+    );
+
+    const slow = enqueue("slow@example.com", 101);
+    const fast = enqueue("fast@example.com", 102);
+    await flush();
+
+    expect(getCommandJob(slow.jobId, "slow@example.com")?.state).toBe(
+      "sending",
+    );
+    expect(getCommandJob(fast.jobId, "fast@example.com")?.state).toBe(
+      "completed",
+    );
+
+    releaseSlowDevice();
+    await flush();
+
+    expect(getCommandJob(slow.jobId, "slow@example.com")?.state).toBe(
+      "completed",
+    );
+  });
+
+  it("runs commands for the same device in order", async () => {
+    const sent: number[] = [];
+    vi.spyOn(bghService, "setDeviceMode").mockImplementation(
+      async (_credentials, _deviceId, options) => {
+        sent.push(options.targetTemperature);
+        return {};
+      },
+    );
+    vi.spyOn(bghService, "getDeviceStatus").mockImplementation(
+      async (_credentials, _homeId, deviceId) =>
+        deviceFor(deviceId, sent[sent.length - 1] ?? 0),
+    );
+
+    const first = enqueue("order@example.com", 201, {
+      mode: "cool",
+      targetTemperature: 20,
+    });
+    enqueue("order@example.com", 201, {
+      mode: "cool",
+      targetTemperature: 21,
+    });
+    await flush();
+    await flush();
+
+    expect(first.position).toBe(1);
+    expect(sent).toEqual([20, 21]);
+  });
+
+  it("supersedes pending commands for the same device", async () => {
+    const sent: number[] = [];
+    let releaseFirst: () => void = () => {};
+    vi.spyOn(bghService, "setDeviceMode").mockImplementation(
+      async (_credentials, _deviceId, options) => {
+        sent.push(options.targetTemperature);
+        if (sent.length === 1) {
+          await new Promise<void>((resolve) => {
+            releaseFirst = resolve;
+          });
+        }
+        return {};
+      },
+    );
+    vi.spyOn(bghService, "getDeviceStatus").mockImplementation(
+      async (_credentials, _homeId, deviceId) =>
+        deviceFor(deviceId, sent[sent.length - 1] ?? 0, 3),
+    );
+
+    const email = "taps@example.com";
+    enqueue(email, 301, { mode: "cool", targetTemperature: 20 });
+    await flush();
+    const second = enqueue(email, 301, {
+      mode: "cool",
+      targetTemperature: 21,
+      fan: "high",
+    });
+    const third = enqueue(email, 301, {
+      mode: "cool",
+      targetTemperature: 22,
+    });
+
+    expect(third.position).toBe(1);
+    expect(getCommandJob(second.jobId, email)).toMatchObject({
+      state: "superseded",
+      supersededBy: third.jobId,
+    });
+    expect(getCommandJob(third.jobId, email)?.payload).toEqual({
+      mode: "cool",
+      targetTemperature: 22,
+      fan: "high",
+    });
+
+    releaseFirst();
+    await flush();
+    await flush();
+
+    expect(sent).toEqual([20, 22]);
+  });
+
+  it("keeps a pending setpoint when a partial update only copies it", async () => {
+    // Hold the first command in flight; nothing here needs to reach the unit.
+    let releaseFirst: () => void = () => {};
+    vi.spyOn(bghService, "setDeviceMode")
+      .mockRejectedValue(new Error("offline"))
+      .mockImplementationOnce(async () => {
+        await new Promise<void>((resolve) => {
+          releaseFirst = resolve;
+        });
+        throw new Error("offline");
+      });
+
+    const credentials = sealCredentials("partial@example.com", "secret");
+    const queue = (payload: CommandPayload, temperatureFromDevice?: boolean) =>
+      enqueueCommand({
+        credentials,
+        homeId: 1,
+        deviceId: 302,
+        payload,
+        log,
+        temperatureFromDevice,
+      });
+
+    queue({ mode: "cool", targetTemperature: 20 });
+    await flush();
+    queue({ mode: "cool", targetTemperature: 24 });
+    const patch = queue(
+      { mode: "no_change", targetTemperature: 20, fan: "high" },
+      true,
+    );
+
+    expect(getCommandJob(patch.jobId, "partial@example.com")?.payload).toEqual({
+      mode: "cool",
+      targetTemperature: 24,
+      fan: "high",
+    });
+    releaseFirst();
+    await flush();
+  });
+
+  it("only supersedes pending commands of the same owner", async () => {
+    // Hold the first command in flight; nothing here needs to reach the unit.
+    let releaseFirst: () => void = () => {};
+    vi.spyOn(bghService, "setDeviceMode")
+      .mockRejectedValue(new Error("offline"))
+      .mockImplementationOnce(async () => {
+        await new Promise<void>((resolve) => {
+          releaseFirst = resolve;
+        });
+        throw new Error("offline");
+      });
+
+    enqueue("first@example.com", 303);
+    await flush();
+    const other = enqueue("other@example.com", 303, {
+      mode: "heat",
+      targetTemperature: 25,
+    });
+    const mine = enqueue("first@example.com", 303, {
+      mode: "cool",
+      targetTemperature: 21,
+    });
+
+    expect(mine.position).toBe(2);
+    expect(getCommandJob(other.jobId, "other@example.com")).toMatchObject({
+      state: "queued",
+      payload: { mode: "heat", targetTemperature: 25 },
+    });
+    releaseFirst();
+    await flush();
+  });
+
+  describe("persistence", () => {
+    const persistedJob = (
+      overrides: Partial<PersistedCommandJob>,
+    ): PersistedCommandJob => ({
+      id: "job",
+      ownerEmail: "owner@example.com",
+      homeId: 1,
+      deviceId: 401,
+      payload: { mode: "off", targetTemperature: 24 },
+      state: "queued",
+      attempts: 0,
+      enqueuedAt: Date.now(),
+      startedAt: null,
+      updatedAt: Date.now(),
+      finishedAt: null,
+      device: null,
+      error: null,
+      supersededBy: null,
+      origin: null,
+      ...overrides,
+    });
+
+    it("never persists credentials", async () => {
+      const store = new MemoryCommandJobStore();
+      setCommandJobStore(store);
+      vi.spyOn(bghService, "setDeviceMode").mockResolvedValue({});
+      vi.spyOn(bghService, "getDeviceStatus").mockImplementation(
+        async (_credentials, _homeId, deviceId) => deviceFor(deviceId, 22),
+      );
+
+      const { jobId } = enqueue("stored@example.com", 402);
+      await flush();
+
+      const [record] = store.load().filter((job) => job.id === jobId);
+      expect(record).toMatchObject({
+        ownerEmail: "stored@example.com",
+        state: "completed",
+      });
+      expect(JSON.stringify(record)).not.toContain("secret");
+    });
+
+    it("starts empty and moves an unreadable job file aside", () => {
+      const directory = mkdtempSync(path.join(tmpdir(), "cygnus-jobs-"));
+      const filePath = path.join(directory, "jobs.json");
+      writeFileSync(filePath, "{ not json");
+
+      try {
+        const store = new FileCommandJobStore(filePath);
+
+        expect(store.load()).toEqual([]);
+        expect(existsSync(filePath)).toBe(false);
+      } finally {
+        rmSync(directory, { recursive: true });
+      }
+    });
+
+    it("resumes recent jobs and interrupts the ones it cannot run", async () => {
+      const store = new MemoryCommandJobStore();
+      store.save(persistedJob({ id: "resumable", state: "sending" }));
+      store.save(
+        persistedJob({
+          id: "orphaned",
+          ownerEmail: "gone@example.com",
+          deviceId: 403,
+        }),
+      );
+      store.save(
+        persistedJob({
+          id: "stale",
+          deviceId: 404,
+          enqueuedAt: Date.now() - 1000 * 60 * 60,
+        }),
+      );
+      setCommandJobStore(store);
+      const setDeviceModeMock = vi
+        .spyOn(bghService, "setDeviceMode")
+        .mockResolvedValue({});
+      vi.spyOn(bghService, "getDeviceStatus").mockImplementation(
+        async (_credentials, _homeId, deviceId) =>
+          new DeviceStatus(
+            deviceId,
+            "",
+            null,
+            null,
+            24,
+            24,
+            254,
+            0,
+            [],
+            {},
+            {},
+          ),
+      );
+
+      const result = restoreCommandQueue({
+        resolveCredentials: (email) =>
+          email === "owner@example.com"
+            ? sealCredentials(email, "secret")
+            : null,
+        log,
+      });
+      await flush();
+
+      expect(result).toEqual({ resumed: 1, interrupted: 2 });
+      expect(setDeviceModeMock).toHaveBeenCalledTimes(1);
+      expect(getCommandJob("resumable", "owner@example.com")?.state).toBe(
+        "completed",
+      );
+      expect(getCommandJob("orphaned", "gone@example.com")?.state).toBe(
+        "interrupted",
+      );
+      expect(getCommandJob("stale", "owner@example.com")?.state).toBe(
+        "interrupted",
+      );
+    });
+  });
+});
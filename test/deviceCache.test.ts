@@ -0,0 +1,40 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { DeviceStatus } from "../integrations/bgh";
+import {
+  clearCachedDevices,
+  getCachedDevice,
+  getCachedDevices,
+  storeDevices,
+} from "../src/services/deviceCache";
+
+describe("deviceCache", () => {
+  const owner = "cache@example.com";
+  const devices = {
+    7: new DeviceStatus(7, "Living", null, null, 24, 21, 254, 1, [], {}, {}),
+  };
+
+  afterEach(() => {
+    clearCachedDevices(owner);
+    vi.unstubAllEnvs();
+  });
+
+  it("serves devices until they are older than the max staleness", () => {
+    vi.stubEnv("BGH_CACHE_MAX_STALENESS_MS", "1000");
+    storeDevices(owner, 1, devices, 5_000);
+
+    expect(getCachedDevices(owner, 1, 6_000)?.devices[7]).toBe(devices[7]);
+    expect(getCachedDevices(owner, 1, 6_001)).toBeNull();
+  });
+
+  it("keeps entries separate per user and home", () => {
+    storeDevices(owner, 1, devices);
+
+    expect(getCachedDevice("CACHE@example.com", 1, 7)).toBe(devices[7]);
+    expect(getCachedDevice("other@example.com", 1, 7)).toBeNull();
+    expect(getCachedDevice(owner, 2, 7)).toBeNull();
+
+    clearCachedDevices(owner, 1);
+    expect(getCachedDevices(owner, 1)).toBeNull();
+  });
+});
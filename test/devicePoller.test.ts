@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import * as bghService from "../src/services/bghService";
+import { BGHServiceError } from "../src/services/bghService";
+import { sealCredentials } from "../src/services/credentialVault";
+import { polledHomeCount, watchHome } from "../src/services/devicePoller";
+
+describe("devicePoller", () => {
+  const credentials = sealCredentials("poller@example.com", "secret");
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it("polls while subscribed and stops once the last subscriber leaves", async () => {
+    vi.useFakeTimers();
+    vi.stubEnv("BGH_POLL_INTERVAL_MS", "1000");
+    const listDevices = vi
+      .spyOn(bghService, "listDevices")
+      .mockResolvedValue({});
+
+    const releaseFirst = watchHome(credentials, 1);
+    const releaseSecond = watchHome(credentials, 1);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(listDevices).toHaveBeenCalledTimes(2);
+
+    releaseFirst();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(listDevices).toHaveBeenCalledTimes(3);
+
+    releaseSecond();
+    expect(polledHomeCount()).toBe(0);
+    expect(vi.getTimerCount()).toBe(0);
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(listDevices).toHaveBeenCalledTimes(3);
+  });
+
+  it("stops polling once BGH rejects the credentials", async () => {
+    vi.useFakeTimers();
+    vi.stubEnv("BGH_POLL_INTERVAL_MS", "1000");
+    const listDevices = vi
+      .spyOn(bghService, "listDevices")
+      .mockRejectedValueOnce(
+        new BGHServiceError("Rejected", "AUTHENTICATION_ERROR"),
+      )
+      .mockResolvedValue({});
+
+    const release = watchHome(credentials, 2);
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(listDevices).toHaveBeenCalledTimes(1);
+    expect(polledHomeCount()).toBe(0);
+    expect(vi.getTimerCount()).toBe(0);
+
+    const releaseRenewed = watchHome(credentials, 2);
+    await vi.advanceTimersByTimeAsync(0);
+    release();
+    expect(listDevices).toHaveBeenCalledTimes(2);
+    expect(polledHomeCount()).toBe(1);
+
+    releaseRenewed();
+    expect(polledHomeCount()).toBe(0);
+  });
+});
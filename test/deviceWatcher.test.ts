@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+
+import { DeviceStatus } from "../integrations/bgh";
+import { diffDeviceSnapshots } from "../src/services/deviceWatcher";
+
+const buildDevice = (deviceId: number, targetTemperature: number) =>
+  new DeviceStatus(
+    deviceId,
+    `Device ${deviceId}`,
+    null,
+    null,
+    24,
+    targetTemperature,
+    254,
+    1,
+    [],
+    {},
+    {},
+  );
+
+describe("diffDeviceSnapshots", () => {
+  it("reports the watched fields that changed with their previous values", () => {
+    const changes = diffDeviceSnapshots(
+      { 7: buildDevice(7, 21), 8: buildDevice(8, 22) },
+      { 7: buildDevice(7, 23), 8: buildDevice(8, 22) },
+    );
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({
+      deviceId: 7,
+      changes: ["targetTemperature"],
+      previous: { targetTemperature: 21 },
+    });
+  });
+
+  it("ignores devices that were added or removed between snapshots", () => {
+    const changes = diffDeviceSnapshots(
+      { 7: buildDevice(7, 21) },
+      { 8: buildDevice(8, 22) },
+    );
+
+    expect(changes).toEqual([]);
+  });
+});
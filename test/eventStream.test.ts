@@ -0,0 +1,197 @@
+import { EventEmitter } from "events";
+import type { Request, Response } from "express";
+import pino from "pino";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import {
+  broadcastEvent,
+  connectedClients,
+  registerClient,
+  type ClientScope,
+} from "../src/services/eventStream";
+
+const log = pino({ level: "silent" });
+
+type FakeStream = {
+  req: EventEmitter;
+  written: () => string;
+  close: () => void;
+};
+
+const openStream = (
+  scope: ClientScope,
+  headers: Record<string, string> = {},
+  query: Record<string, string> = {},
+): FakeStream => {
+  const req = Object.assign(new EventEmitter(), { headers, query });
+  const chunks: string[] = [];
+  const res = {
+    setHeader: vi.fn(),
+    flushHeaders: vi.fn(),
+    write: vi.fn((chunk: string) => {
+      chunks.push(chunk);
+      return true;
+    }),
+    end: vi.fn(),
+  };
+
+  registerClient(
+    req as unknown as Request,
+    res as unknown as Response,
+    log,
+    scope,
+  );
+
+  return {
+    req,
+    written: () => chunks.join(""),
+    close: () => {
+      req.emit("close");
+    },
+  };
+};
+
+describe("event stream", () => {
+  const streams: FakeStream[] = [];
+  const open = (
+    scope: ClientScope,
+    headers?: Record<string, string>,
+    query?: Record<string, string>,
+  ): FakeStream => {
+    const stream = openStream(scope, headers, query);
+    streams.push(stream);
+    return stream;
+  };
+
+  afterEach(() => {
+    streams.splice(0).forEach((stream) => stream.close());
+  });
+
+  it("never delivers another user's events", () => {
+    const alice = open({ email: "alice@example.com", homeId: null });
+    const bob = open({ email: "bob@example.com", homeId: null });
+
+    broadcastEvent(
+      "device-update",
+      { homeId: 1, deviceId: 10 },
+      { email: "alice@example.com", homeId: 1 },
+    );
+
+    expect(alice.written()).toContain("event: device-update");
+    expect(bob.written()).not.toContain("device-update");
+  });
+
+  it("matches the owning user case-insensitively", () => {
+    const alice = open({ email: "Alice@Example.com", homeId: null });
+
+    broadcastEvent(
+      "command-error",
+      { homeId: 1, deviceId: 10, message: "boom" },
+      { email: "alice@example.com", homeId: 1 },
+    );
+
+    expect(alice.written()).toContain("event: command-error");
+  });
+
+  it("only delivers events for the subscribed home", () => {
+    const living = open({ email: "alice@example.com", homeId: 1 });
+    const beach = open({ email: "alice@example.com", homeId: 2 });
+    const everything = open({ email: "alice@example.com", homeId: null });
+
+    broadcastEvent(
+      "device-update",
+      { homeId: 2, deviceId: 20 },
+      { email: "alice@example.com", homeId: 2 },
+    );
+
+    expect(living.written()).not.toContain("device-update");
+    expect(beach.written()).toContain('"deviceId":20');
+    expect(everything.written()).toContain('"deviceId":20');
+  });
+
+  it("stops writing to streams once they close", () => {
+    const alice = open({ email: "alice@example.com", homeId: null });
+    const before = connectedClients();
+    alice.close();
+
+    broadcastEvent(
+      "device-update",
+      { homeId: 1, deviceId: 10 },
+      { email: "alice@example.com", homeId: 1 },
+    );
+
+    expect(connectedClients()).toBe(before - 1);
+    expect(alice.written()).not.toContain("device-update");
+  });
+
+  it("tags events with increasing IDs and sends a retry hint", () => {
+    const carol = open({ email: "carol@example.com", homeId: null });
+
+    const first = broadcastEvent(
+      "device-update",
+      {},
+      { email: "carol@example.com" },
+    );
+    const second = broadcastEvent(
+      "device-update",
+      {},
+      { email: "carol@example.com" },
+    );
+
+    expect(second).toBeGreaterThan(first);
+    expect(carol.written()).toMatch(/^retry: \d+\n/);
+    expect(carol.written()).toContain(`id: ${first}\nevent: device-update`);
+    expect(carol.written()).toContain(`id: ${second}\nevent: device-update`);
+  });
+
+  it("replays events missed since Last-Event-ID before streaming", () => {
+    const target = { email: "dave@example.com", homeId: 1 };
+    const seen = broadcastEvent("device-update", { step: 1 }, target);
+    broadcastEvent("command-error", { step: 2 }, target);
+    broadcastEvent("device-update", { step: 3 }, { ...target, homeId: 2 });
+    broadcastEvent("device-update", { step: 4 }, { email: "erin@example.com" });
+
+    const dave = open(
+      { email: "dave@example.com", homeId: 1 },
+      { "last-event-id": String(seen) },
+    );
+
+    expect(dave.written()).not.toContain('"step":1');
+    expect(dave.written()).toContain('"step":2');
+    expect(dave.written()).not.toContain('"step":3');
+    expect(dave.written()).not.toContain('"step":4');
+  });
+
+  it("accepts the last event ID from the query string", () => {
+    const target = { email: "frank@example.com" };
+    const seen = broadcastEvent("device-update", { step: 1 }, target);
+    broadcastEvent("device-update", { step: 2 }, target);
+
+    const frank = open(
+      { email: "frank@example.com", homeId: null },
+      {},
+      { lastEventId: String(seen) },
+    );
+
+    expect(frank.written()).toContain('"step":2');
+    expect(frank.written()).not.toContain('"step":1');
+  });
+
+  it("asks the client to resync when the gap exceeds the buffer", () => {
+    vi.stubEnv("SSE_REPLAY_BUFFER_SIZE", "1");
+    const target = { email: "grace@example.com" };
+    const seen = broadcastEvent("device-update", { step: 1 }, target);
+    broadcastEvent("device-update", { step: 2 }, target);
+    broadcastEvent("device-update", { step: 3 }, target);
+    vi.unstubAllEnvs();
+
+    const grace = open(
+      { email: "grace@example.com", homeId: null },
+      { "last-event-id": String(seen) },
+    );
+
+    expect(grace.written()).toContain("event: resync");
+    expect(grace.written()).not.toContain('"step":2');
+    expect(grace.written()).toContain('"step":3');
+  });
+});
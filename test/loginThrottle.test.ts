@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  type LoginAttempt,
+  checkLoginAttempt,
+  recordLoginFailure,
+  recordLoginSuccess,
+  releaseLoginAttempt,
+  resetLoginThrottle,
+} from "../src/services/loginThrottle";
+
+describe("loginThrottle", () => {
+  const attempt = { ip: "203.0.113.7", email: "victim@example.com" };
+
+  const fail = (times: number, target: LoginAttempt = attempt) => {
+    for (let index = 0; index < times; index += 1) {
+      recordLoginFailure(target);
+    }
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    resetLoginThrottle();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it("allows a few failures before backing off", () => {
+    fail(5);
+    expect(checkLoginAttempt(attempt)).toEqual({ allowed: true });
+
+    fail(1);
+    expect(checkLoginAttempt(attempt)).toEqual({
+      allowed: false,
+      retryAfterMs: 1_000,
+    });
+
+    vi.advanceTimersByTime(1_000);
+    expect(checkLoginAttempt(attempt)).toEqual({ allowed: true });
+  });
+
+  it("doubles the delay on every further failure up to the lockout", () => {
+    vi.stubEnv("LOGIN_LOCKOUT_MS", "5000");
+    fail(7);
+    expect(checkLoginAttempt(attempt)).toMatchObject({ retryAfterMs: 2_000 });
+
+    fail(1);
+    expect(checkLoginAttempt(attempt)).toMatchObject({ retryAfterMs: 4_000 });
+
+    fail(1);
+    expect(checkLoginAttempt(attempt)).toMatchObject({ retryAfterMs: 5_000 });
+
+    vi.advanceTimersByTime(5_000);
+    expect(checkLoginAttempt(attempt)).toEqual({ allowed: true });
+  });
+
+  it("counts attempts still in flight against the remaining budget", () => {
+    fail(3);
+    expect(checkLoginAttempt(attempt)).toEqual({ allowed: true });
+    expect(checkLoginAttempt(attempt)).toEqual({ allowed: true });
+    expect(checkLoginAttempt(attempt)).toMatchObject({ allowed: false });
+
+    releaseLoginAttempt(attempt);
+    recordLoginSuccess(attempt);
+    expect(checkLoginAttempt(attempt)).toEqual({ allowed: true });
+  });
+
+  it("lets a single attempt through at a time once failures ran out", () => {
+    fail(6);
+    vi.advanceTimersByTime(1_000);
+
+    expect(checkLoginAttempt(attempt)).toEqual({ allowed: true });
+    expect(checkLoginAttempt(attempt)).toMatchObject({ allowed: false });
+
+    recordLoginFailure(attempt);
+    expect(checkLoginAttempt(attempt)).toEqual({
+      allowed: false,
+      retryAfterMs: 2_000,
+    });
+  });
+
+  it("throttles an IP spraying passwords across many emails", () => {
+    for (let index = 0; index < 21; index += 1) {
+      recordLoginFailure({ ip: attempt.ip, email: `user${index}@example.com` });
+    }
+
+    expect(
+      checkLoginAttempt({ ip: attempt.ip, email: "fresh@example.com" }),
+    ).toMatchObject({ allowed: false });
+    expect(
+      checkLoginAttempt({ ip: "198.51.100.1", email: "fresh@example.com" }),
+    ).toEqual({ allowed: true });
+  });
+
+  it("forgives failures after a successful login or the lockout window", () => {
+    fail(5);
+    recordLoginSuccess(attempt);
+    fail(1, { ip: null, email: attempt.email });
+    expect(checkLoginAttempt(attempt)).toEqual({ allowed: true });
+
+    fail(4, { ip: null, email: attempt.email });
+    vi.advanceTimersByTime(1000 * 60 * 15 + 1);
+    fail(1, { ip: null, email: attempt.email });
+    expect(checkLoginAttempt(attempt)).toEqual({ allowed: true });
+  });
+});
@@ -0,0 +1,119 @@
+import pino from "pino";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { DeviceStatus } from "../integrations/bgh";
+import * as bghService from "../src/services/bghService";
+import { sealCredentials } from "../src/services/credentialVault";
+import * as eventStream from "../src/services/eventStream";
+import {
+  SceneError,
+  applyScene,
+  createScene,
+  getSceneRun,
+  listScenes,
+  setSceneStore,
+} from "../src/services/sceneService";
+import { MemorySceneStore } from "../src/services/sceneStore";
+
+const log = pino({ level: "silent" });
+
+describe("sceneService", () => {
+  const owner = "scenes@example.com";
+  const credentials = sealCredentials(owner, "secret");
+
+  const createCoolDownScene = () =>
+    createScene(owner, 1, {
+      name: "Cool everything down",
+      entries: [
+        { deviceId: 201, mode: "cool", targetTemperature: 22, fan: "auto" },
+        { deviceId: 202, mode: "cool", targetTemperature: 23 },
+      ],
+    });
+
+  beforeEach(() => {
+    setSceneStore(new MemorySceneStore());
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("validates entries and keeps scenes scoped to their owner", () => {
+    const scene = createCoolDownScene();
+
+    expect(listScenes(owner, 1)).toEqual([scene]);
+    expect(listScenes("intruder@example.com", 1)).toEqual([]);
+    expect(() =>
+      createScene(owner, 1, {
+        name: "Twice",
+        entries: [
+          { deviceId: 201, mode: "cool", targetTemperature: 22 },
+          { deviceId: 201, mode: "heat", targetTemperature: 24 },
+        ],
+      }),
+    ).toThrow(SceneError);
+    expect(() => createScene(owner, 1, { name: "Empty", entries: [] })).toThrow(
+      SceneError,
+    );
+  });
+
+  it("reports each device and settles the aggregate run", async () => {
+    const broadcastSpy = vi.spyOn(eventStream, "broadcastEvent");
+    vi.spyOn(bghService, "setDeviceMode").mockImplementation(
+      async (_credentials, deviceId) => {
+        if (deviceId === 202) {
+          throw new Error("Device unreachable");
+        }
+        return {};
+      },
+    );
+    vi.spyOn(bghService, "getDeviceStatus").mockResolvedValue(
+      new DeviceStatus(201, "Living", null, null, 25, 22, 254, 1, [], {}, {}),
+    );
+    const scene = createCoolDownScene();
+
+    const run = applyScene(1, scene.id, { credentials, log });
+    expect(run.state).toBe("running");
+
+    await vi.waitFor(() => {
+      expect(getSceneRun(run.id, owner)?.state).toBe("partial");
+    });
+
+    const finished = getSceneRun(run.id, owner);
+    expect(finished?.devices).toEqual([
+      expect.objectContaining({ deviceId: 201, outcome: "completed" }),
+      expect.objectContaining({
+        deviceId: 202,
+        outcome: "failed",
+        error: "Device unreachable",
+      }),
+    ]);
+    const sceneEvents = broadcastSpy.mock.calls
+      .map(([event]) => event)
+      .filter((event) => event.startsWith("scene-"));
+    expect(sceneEvents.sort()).toEqual([
+      "scene-device-result",
+      "scene-device-result",
+      "scene-finished",
+    ]);
+    expect(getSceneRun(run.id, "intruder@example.com")).toBeNull();
+  });
+
+  it("fails entries rejected before queueing without sending them", () => {
+    const setModeSpy = vi.spyOn(bghService, "setDeviceMode");
+    const scene = createCoolDownScene();
+
+    const run = applyScene(1, scene.id, {
+      credentials,
+      log,
+      checkEntry: ({ deviceId }) => `Device ${deviceId} not found.`,
+    });
+
+    expect(setModeSpy).not.toHaveBeenCalled();
+    expect(run.state).toBe("failed");
+    expect(run.devices.map(({ jobId, error }) => ({ jobId, error }))).toEqual([
+      { jobId: null, error: "Device 201 not found." },
+      { jobId: null, error: "Device 202 not found." },
+    ]);
+  });
+});
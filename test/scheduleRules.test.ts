@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  ScheduleRuleError,
+  nextRunAfter,
+  normaliseRule,
+} from "../src/services/scheduleRules";
+
+const BUENOS_AIRES = "America/Argentina/Buenos_Aires";
+
+describe("scheduleRules", () => {
+  it("finds the next weekday run in the home timezone", () => {
+    const rule = normaliseRule({ type: "weekly", days: [5, 1], time: "22:30" });
+    // Monday 09:00 in Buenos Aires (UTC-3).
+    const mondayMorning = Date.UTC(2026, 9, 19, 12, 0);
+
+    const first = nextRunAfter(rule, BUENOS_AIRES, mondayMorning);
+    const second = nextRunAfter(rule, BUENOS_AIRES, first ?? 0);
+
+    expect(rule).toEqual({ type: "weekly", days: [1, 5], time: "22:30" });
+    expect(first).toBe(Date.UTC(2026, 9, 20, 1, 30));
+    expect(second).toBe(Date.UTC(2026, 9, 24, 1, 30));
+  });
+
+  it("follows cron expressions across daylight saving changes", () => {
+    const rule = normaliseRule({ type: "cron", expression: "0 9 * * *" });
+
+    const beforeChange = nextRunAfter(
+      rule,
+      "Europe/Madrid",
+      Date.UTC(2026, 2, 28, 12, 0),
+    );
+
+    expect(beforeChange).toBe(Date.UTC(2026, 2, 29, 7, 0));
+  });
+
+  it("supports ranges, lists and steps in cron fields", () => {
+    const rule = normaliseRule({
+      type: "cron",
+      expression: "*/15 7-8 * * 1-5",
+    });
+    // Saturday 12:00 UTC, so the next run is Monday 07:00 UTC.
+    const saturday = Date.UTC(2026, 9, 17, 12, 0);
+
+    expect(nextRunAfter(rule, "UTC", saturday)).toBe(
+      Date.UTC(2026, 9, 19, 7, 0),
+    );
+    expect(nextRunAfter(rule, "UTC", Date.UTC(2026, 9, 19, 7, 0))).toBe(
+      Date.UTC(2026, 9, 19, 7, 15),
+    );
+  });
+
+  it("runs one-off rules only once", () => {
+    const rule = normaliseRule({ type: "once", at: "2026-10-20T07:00" });
+
+    expect(nextRunAfter(rule, BUENOS_AIRES, Date.UTC(2026, 9, 19))).toBe(
+      Date.UTC(2026, 9, 20, 10, 0),
+    );
+    expect(
+      nextRunAfter(rule, BUENOS_AIRES, Date.UTC(2026, 9, 20, 10, 0)),
+    ).toBeNull();
+  });
+
+  it("rejects malformed rules", () => {
+    expect(() =>
+      normaliseRule({ type: "weekly", days: [], time: "22:30" }),
+    ).toThrow(ScheduleRuleError);
+    expect(() =>
+      normaliseRule({ type: "cron", expression: "61 * * * *" }),
+    ).toThrow(ScheduleRuleError);
+    expect(() =>
+      normaliseRule({ type: "once", at: "2026-02-30T10:00" }),
+    ).toThrow(ScheduleRuleError);
+    expect(() => normaliseRule({ type: "hourly" })).toThrow(ScheduleRuleError);
+  });
+});
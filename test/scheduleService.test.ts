@@ -0,0 +1,240 @@
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { DeviceStatus } from "../integrations/bgh";
+import * as commandQueue from "../src/services/commandQueue";
+import { sealCredentials } from "../src/services/credentialVault";
+import { clearCachedDevices, storeDevices } from "../src/services/deviceCache";
+import {
+  ScheduleError,
+  createSchedule,
+  getHomeTimezone,
+  getSchedule,
+  listSchedules,
+  runDueSchedules,
+  setHomeTimezone,
+  setScheduleStore,
+  updateSchedule,
+} from "../src/services/scheduleService";
+import {
+  FileScheduleStore,
+  MemoryScheduleStore,
+} from "../src/services/scheduleStore";
+
+describe("scheduleService", () => {
+  const owner = "owner@example.com";
+  const credentials = sealCredentials(owner, "secret");
+  const createdAt = Date.UTC(2026, 9, 19, 12, 0);
+  const clockAt = (now: number) => ({ now: () => now });
+
+  const createWeekdaySchedule = () =>
+    createSchedule(
+      owner,
+      1,
+      {
+        deviceId: 7,
+        name: "Bedroom at night",
+        rule: { type: "weekly", days: [1, 2, 3, 4, 5], time: "22:30" },
+        command: { mode: "cool", targetTemperature: 24 },
+      },
+      createdAt,
+    );
+
+  beforeEach(() => {
+    setScheduleStore(new MemoryScheduleStore());
+    setHomeTimezone(owner, 1, "America/Argentina/Buenos_Aires", createdAt);
+  });
+
+  afterEach(() => {
+    clearCachedDevices(owner);
+    vi.restoreAllMocks();
+  });
+
+  const seedDevice = (maxTemperature: number, at: number) =>
+    storeDevices(
+      owner,
+      1,
+      {
+        7: new DeviceStatus(
+          7,
+          "Bedroom",
+          null,
+          null,
+          25,
+          22,
+          254,
+          1,
+          [
+            {
+              ValueType: 20,
+              Value: 22,
+              MinValue: 18,
+              MaxValue: maxTemperature,
+            },
+          ],
+          {},
+          {},
+        ),
+      },
+      at,
+    );
+
+  it("exposes the next run and keeps schedules scoped to their owner", () => {
+    const schedule = createWeekdaySchedule();
+
+    expect(schedule.nextRunAt).toBe(Date.UTC(2026, 9, 20, 1, 30));
+    expect(listSchedules(owner, 1)).toHaveLength(1);
+    expect(listSchedules("intruder@example.com", 1)).toEqual([]);
+    expect(() => getSchedule("intruder@example.com", 1, schedule.id)).toThrow(
+      ScheduleError,
+    );
+  });
+
+  it("queues the command when a run is due and records it", () => {
+    const enqueueMock = vi
+      .spyOn(commandQueue, "enqueueCommand")
+      .mockReturnValue({ jobId: "job-1", position: 1 });
+    const schedule = createWeekdaySchedule();
+    const options = { resolveCredentials: () => credentials };
+
+    expect(
+      runDueSchedules({ ...options, clock: clockAt(createdAt + 60_000) }),
+    ).toBe(0);
+
+    const dueAt = schedule.nextRunAt ?? 0;
+    expect(runDueSchedules({ ...options, clock: clockAt(dueAt + 5_000) })).toBe(
+      1,
+    );
+
+    expect(enqueueMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        credentials,
+        homeId: 1,
+        deviceId: 7,
+        payload: { mode: "cool", targetTemperature: 24 },
+      }),
+    );
+    const updated = getSchedule(owner, 1, schedule.id);
+    expect(updated.history).toEqual([
+      {
+        scheduledFor: dueAt,
+        firedAt: dueAt + 5_000,
+        outcome: "queued",
+        jobId: "job-1",
+        error: null,
+      },
+    ]);
+    expect(updated.nextRunAt).toBe(Date.UTC(2026, 9, 21, 1, 30));
+  });
+
+  it("skips runs missed while the server was down", () => {
+    const enqueueMock = vi.spyOn(commandQueue, "enqueueCommand");
+    const schedule = createWeekdaySchedule();
+
+    runDueSchedules({
+      resolveCredentials: () => credentials,
+      clock: clockAt((schedule.nextRunAt ?? 0) + 1000 * 60 * 60),
+    });
+
+    expect(enqueueMock).not.toHaveBeenCalled();
+    expect(getSchedule(owner, 1, schedule.id).history[0]).toMatchObject({
+      outcome: "missed",
+    });
+  });
+
+  it("records a skipped run when the owner has no usable session", () => {
+    const enqueueMock = vi.spyOn(commandQueue, "enqueueCommand");
+    const schedule = createWeekdaySchedule();
+
+    runDueSchedules({
+      resolveCredentials: () => null,
+      clock: clockAt(schedule.nextRunAt ?? 0),
+    });
+
+    expect(enqueueMock).not.toHaveBeenCalled();
+    expect(getSchedule(owner, 1, schedule.id).history[0]).toMatchObject({
+      outcome: "skipped",
+    });
+  });
+
+  it("moves next runs when the home timezone changes", () => {
+    const schedule = createWeekdaySchedule();
+
+    setHomeTimezone(owner, 1, "UTC", createdAt);
+
+    expect(getSchedule(owner, 1, schedule.id).nextRunAt).toBe(
+      Date.UTC(2026, 9, 19, 22, 30),
+    );
+  });
+
+  it("does not let another user move the owner's schedules", () => {
+    const schedule = createWeekdaySchedule();
+
+    setHomeTimezone("intruder@example.com", 1, "Asia/Tokyo", createdAt);
+
+    expect(getHomeTimezone(owner, 1)).toBe("America/Argentina/Buenos_Aires");
+    expect(getSchedule(owner, 1, schedule.id).nextRunAt).toBe(
+      schedule.nextRunAt,
+    );
+  });
+
+  it("rejects commands the device does not support", () => {
+    seedDevice(22, createdAt - 60_000);
+
+    expect(() => createWeekdaySchedule()).toThrow(
+      "Target temperature must be at most 22.",
+    );
+  });
+
+  it("skips a run when the device no longer supports the command", () => {
+    const enqueueMock = vi.spyOn(commandQueue, "enqueueCommand");
+    const schedule = createWeekdaySchedule();
+    const dueAt = schedule.nextRunAt ?? 0;
+    seedDevice(22, dueAt - 60_000);
+
+    runDueSchedules({
+      resolveCredentials: () => credentials,
+      clock: clockAt(dueAt),
+    });
+
+    expect(enqueueMock).not.toHaveBeenCalled();
+    expect(getSchedule(owner, 1, schedule.id).history[0]).toMatchObject({
+      outcome: "skipped",
+      error: "Target temperature must be at most 22.",
+    });
+  });
+
+  it("rejects an update to a rule that never fires again", () => {
+    const schedule = createWeekdaySchedule();
+
+    expect(() =>
+      updateSchedule(
+        owner,
+        1,
+        schedule.id,
+        { rule: { type: "once", at: "2026-01-31T22:30" } },
+        createdAt,
+      ),
+    ).toThrow("The rule never fires in the future.");
+    expect(getSchedule(owner, 1, schedule.id).nextRunAt).toBe(
+      schedule.nextRunAt,
+    );
+  });
+
+  it("starts empty and moves an unreadable schedule file aside", () => {
+    const directory = mkdtempSync(path.join(tmpdir(), "cygnus-schedules-"));
+    const filePath = path.join(directory, "schedules.json");
+    writeFileSync(filePath, "{ not json");
+
+    try {
+      const store = new FileScheduleStore(filePath);
+
+      expect(store.load()).toEqual({ schedules: [], timezones: {} });
+      expect(existsSync(filePath)).toBe(false);
+    } finally {
+      rmSync(directory, { recursive: true });
+    }
+  });
+});
@@ -0,0 +1,86 @@
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import type { Session } from "../src/services/authService";
+import { FileSessionStore } from "../src/services/sessionStore";
+
+const buildSession = (token: string): Session => ({
+  id: `id-${token}`,
+  token,
+  email: "user@example.com",
+  sealedPassword: "v1.sealed",
+  reauthRequired: false,
+  csrfToken: "csrf",
+  userAgent: null,
+  ip: null,
+  createdAt: 1,
+  lastActivityAt: 1,
+  expiresAt: Date.now() + 60_000,
+  absoluteExpiresAt: Date.now() + 120_000,
+});
+
+describe("FileSessionStore", () => {
+  const directories: string[] = [];
+  const createPath = (): string => {
+    const directory = mkdtempSync(path.join(tmpdir(), "cygnus-sessions-"));
+    directories.push(directory);
+    return path.join(directory, "sessions.json");
+  };
+
+  afterEach(() => {
+    vi.useRealTimers();
+    directories
+      .splice(0)
+      .forEach((directory) => rmSync(directory, { recursive: true }));
+  });
+
+  it("keeps sessions across store instances", () => {
+    const filePath = createPath();
+    new FileSessionStore(filePath).set(buildSession("token-a"));
+
+    const reopened = new FileSessionStore(filePath);
+
+    expect(reopened.get("token-a")).toMatchObject({
+      email: "user@example.com",
+    });
+  });
+
+  it("sees sessions written by another instance", () => {
+    const filePath = createPath();
+    const first = new FileSessionStore(filePath);
+    const second = new FileSessionStore(filePath);
+
+    first.set(buildSession("token-b"));
+    expect(second.get("token-b")).toBeDefined();
+
+    second.delete("token-b");
+    expect(first.get("token-b")).toBeUndefined();
+  });
+
+  it("does not bring back a session revoked by another instance", () => {
+    vi.useFakeTimers();
+    const filePath = createPath();
+    const first = new FileSessionStore(filePath);
+    first.set(buildSession("token-d"));
+    const second = new FileSessionStore(filePath);
+    const session = second.get("token-d") as Session;
+
+    first.delete("token-d");
+    second.touch({ ...session, lastActivityAt: 2 });
+    vi.runAllTimers();
+
+    expect(new FileSessionStore(filePath).get("token-d")).toBeUndefined();
+  });
+
+  it("only writes sealed credentials to disk", () => {
+    const filePath = createPath();
+    new FileSessionStore(filePath).set(buildSession("token-c"));
+
+    const content = readFileSync(filePath, "utf8");
+
+    expect(content).toContain("sealedPassword");
+    expect(content).not.toContain('"password"');
+  });
+});
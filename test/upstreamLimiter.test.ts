@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import {
+  UpstreamBusyError,
+  acquireUpstreamSlot,
+} from "../src/services/upstreamLimiter";
+
+describe("upstreamLimiter", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it("delays requests beyond the per-second budget", async () => {
+    vi.useFakeTimers();
+    vi.stubEnv("BGH_MAX_REQUESTS_PER_SECOND", "2");
+    const started: number[] = [];
+    const startAt = Date.now();
+
+    const requests = Array.from({ length: 5 }, () =>
+      acquireUpstreamSlot().then(() => started.push(Date.now() - startAt)),
+    );
+    await vi.runAllTimersAsync();
+    await Promise.all(requests);
+
+    expect(started).toEqual([0, 0, 1000, 1000, 2000]);
+  });
+
+  it("fails fast once the wait would exceed the maximum", async () => {
+    vi.useFakeTimers();
+    vi.stubEnv("BGH_MAX_REQUESTS_PER_SECOND", "1");
+    vi.stubEnv("BGH_MAX_QUEUE_WAIT_MS", "1000");
+    // Leave the grants of earlier tests behind.
+    vi.setSystemTime(Date.now() + 10_000);
+
+    const first = acquireUpstreamSlot();
+    const second = acquireUpstreamSlot();
+    const third = acquireUpstreamSlot();
+
+    await expect(third).rejects.toBeInstanceOf(UpstreamBusyError);
+    await vi.runAllTimersAsync();
+    await expect(Promise.all([first, second])).resolves.toBeDefined();
+  });
+});